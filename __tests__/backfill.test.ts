@@ -0,0 +1,171 @@
+/**
+ * Unit tests for backfill.ts
+ *
+ * Drives a backfill job through its queue events against an in-memory Forge
+ * Storage, with the JQL search and recompute mocked.
+ */
+import { cancelBackfill, getBackfillJob, processBackfill, startBackfill } from '../src/backfill';
+import { rebuildRollup } from '../src/rollup';
+import { countIssues, searchIssues } from '../src/hierarchy';
+
+const mockData = new Map<string, any>();
+const mockQueued: Array<{ jobId: string }> = [];
+
+jest.mock('@forge/api', () => ({
+  storage: {
+    get: async (key: string) => mockData.get(key),
+    set: async (key: string, value: any) => void mockData.set(key, value),
+  },
+}));
+jest.mock('@forge/events', () => ({
+  Queue: class {
+    async push(payload: { jobId: string }) {
+      mockQueued.push(payload);
+    }
+  },
+}));
+jest.mock('../src/rollup', () => ({ rebuildRollup: jest.fn() }));
+jest.mock('../src/hierarchy', () => ({
+  searchIssues: jest.fn(),
+  countIssues: jest.fn(),
+  createApiBudget: () => ({ remaining: 200, exhausted: false }),
+  cutShortByBudget: jest.requireActual('../src/hierarchy').cutShortByBudget,
+}));
+
+const rebuild = rebuildRollup as jest.MockedFunction<typeof rebuildRollup>;
+const search = searchIssues as jest.MockedFunction<typeof searchIssues>;
+const count = countIssues as jest.MockedFunction<typeof countIssues>;
+
+const metrics = { results: {}, updatedAt: 'now' };
+
+/** Serves `total` matching issues, EPIC-0 … EPIC-<total-1>, page by page. */
+function mockMatches(total: number) {
+  count.mockResolvedValue(total);
+  search.mockImplementation(async (_jql, _fields, pageToken, maxResults = 50) => {
+    const startAt = Number(pageToken ?? 0);
+    const end = Math.min(startAt + maxResults, total);
+    return {
+      issues: Array.from({ length: Math.max(0, end - startAt) }, (_, i) => ({
+        id: String(startAt + i),
+        key: `EPIC-${startAt + i}`,
+        fields: {},
+      })),
+      nextPageToken: end < total ? String(end) : undefined,
+    };
+  });
+}
+
+/** Delivers queued events until the queue is empty. */
+async function drainQueue() {
+  while (mockQueued.length) await processBackfill(mockQueued.shift()!);
+}
+
+describe('Backfill', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  beforeEach(() => {
+    mockData.clear();
+    mockQueued.length = 0;
+    jest.clearAllMocks();
+  });
+
+  test('should recompute every match and report a summary', async () => {
+    mockMatches(60);
+    rebuild.mockImplementation(async (key) => {
+      if (key === 'EPIC-7') throw new Error('Issue does not exist');
+      return key === 'EPIC-8' ? null : metrics;
+    });
+
+    await startBackfill('  issuetype = Epic ');
+    await drainQueue();
+
+    expect(rebuild).toHaveBeenCalledTimes(60);
+    expect(search.mock.calls[0][0]).toBe('issuetype = Epic');
+    expect(await getBackfillJob()).toMatchObject({
+      status: 'completed',
+      total: 60,
+      processed: 60,
+      updated: 58,
+      skipped: 1,
+      failed: 1,
+      failures: [{ issueKey: 'EPIC-7', error: 'Issue does not exist' }],
+    });
+  });
+
+  test('should continue in a new event when the time budget runs out', async () => {
+    mockMatches(60);
+    let t = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => t);
+    rebuild.mockImplementation(async () => {
+      t += 1000; // each recompute takes a second
+      return metrics;
+    });
+
+    await startBackfill('issuetype = Epic');
+    await processBackfill(mockQueued.shift()!);
+    expect(mockQueued).toHaveLength(1);
+    // Stopped inside the first page, with the issues done so far checkpointed
+    const job = await getBackfillJob();
+    expect(job).toMatchObject({ processed: 15, position: 15 });
+    expect(job!.pageToken).toBeUndefined();
+
+    await drainQueue();
+    expect(rebuild).toHaveBeenCalledTimes(60);
+    expect((await getBackfillJob())!.status).toBe('completed');
+  });
+
+  test('should continue in a new event once the API budget is used up', async () => {
+    mockMatches(10);
+    rebuild.mockImplementation(async (key, budget) => {
+      budget.remaining -= 10;
+      // Runs out partway through EPIC-2 the first time
+      if (key === 'EPIC-2' && rebuild.mock.calls.length === 3) {
+        Object.assign(budget, { remaining: 0, exhausted: true });
+      }
+      return metrics;
+    });
+
+    await startBackfill('issuetype = Epic');
+    await processBackfill(mockQueued.shift()!);
+    expect(rebuild).toHaveBeenCalledTimes(3);
+    expect(mockQueued).toHaveLength(1);
+    // EPIC-2 may be partial, so it is neither counted nor checkpointed
+    expect(await getBackfillJob()).toMatchObject({ processed: 2, updated: 2, position: 2 });
+
+    await drainQueue();
+    expect(rebuild).toHaveBeenCalledTimes(11);
+    expect(rebuild.mock.calls[3][0]).toBe('EPIC-2');
+    expect(await getBackfillJob()).toMatchObject({ status: 'completed', processed: 10, updated: 10 });
+  });
+
+  test('should stop after the current issue when cancelled', async () => {
+    mockMatches(100);
+    rebuild.mockImplementation(async (key) => {
+      if (key === 'EPIC-30') await cancelBackfill();
+      return metrics;
+    });
+
+    await startBackfill('issuetype = Epic');
+    await drainQueue();
+
+    // EPIC-30 finishes, but its progress isn't saved over the cancel
+    expect(rebuild).toHaveBeenCalledTimes(31);
+    expect(await getBackfillJob()).toMatchObject({ status: 'cancelled', processed: 30 });
+  });
+
+  test('should refuse to start while a job is running', async () => {
+    mockMatches(10);
+    await startBackfill('issuetype = Epic');
+    await expect(startBackfill('issuetype = Story')).rejects.toThrow('already running');
+
+    await drainQueue();
+    await expect(startBackfill('issuetype = Story')).resolves.toMatchObject({ status: 'running' });
+  });
+
+  test('should fail the job when the search is rejected', async () => {
+    search.mockRejectedValue(new Error('Jira search failed: 400'));
+    await startBackfill('not valid jql (');
+    await drainQueue();
+    expect(await getBackfillJob()).toMatchObject({ status: 'failed', error: 'Jira search failed: 400' });
+  });
+});
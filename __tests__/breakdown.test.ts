@@ -0,0 +1,82 @@
+/**
+ * Unit tests for breakdown.ts
+ *
+ * Builds drill-down breakdowns for a small epic → story → sub-task tree.
+ */
+import { buildBreakdown, MAX_ISSUE_KEYS } from '../src/breakdown';
+import type { JiraIssue } from '../src/types';
+
+const CATEGORIES: Record<string, string> = {
+  'To Do': 'new',
+  'In Progress': 'indeterminate',
+  Blocked: 'indeterminate',
+  Done: 'done',
+};
+
+function issue(key: string, parent: string, type: string, status: string, points?: number): JiraIssue {
+  return {
+    id: key,
+    key,
+    fields: {
+      summary: `Summary of ${key}`,
+      status: { name: status, statusCategory: { key: CATEGORIES[status], name: status } },
+      issuetype: { name: type },
+      parent: { id: parent, key: parent },
+      story_points: points,
+    },
+  };
+}
+
+const descendants: JiraIssue[] = [
+  issue('PROJ-1', 'EPIC-1', 'Story', 'Done', 5),
+  issue('PROJ-11', 'PROJ-1', 'Sub-task', 'Done', 1),
+  issue('PROJ-2', 'EPIC-1', 'Story', 'In Progress', 3),
+  issue('PROJ-21', 'PROJ-2', 'Sub-task', 'Blocked'),
+  issue('PROJ-22', 'PROJ-2', 'Sub-task', 'To Do', 2),
+  issue('PROJ-3', 'EPIC-1', 'Bug', 'Blocked', 8),
+];
+
+describe('buildBreakdown', () => {
+  test('should split issues and points by progress and issue type', () => {
+    const breakdown = buildBreakdown('EPIC-1', descendants, 'storyPointSum', 'story_points');
+    expect(breakdown.byProgress).toEqual({
+      todo: { count: 1, points: 2 },
+      inProgress: { count: 3, points: 11 },
+      done: { count: 2, points: 6 },
+    });
+    expect(breakdown.byIssueType).toEqual({
+      Story: { count: 2, points: 8 },
+      'Sub-task': { count: 3, points: 3 },
+      Bug: { count: 1, points: 8 },
+    });
+  });
+
+  test('should subtotal each direct child over its subtree', () => {
+    const { children } = buildBreakdown('EPIC-1', descendants, 'storyPointSum', 'story_points');
+    expect(children.map((c) => c.key)).toEqual(['PROJ-1', 'PROJ-2', 'PROJ-3']);
+    expect(children[1]).toEqual({
+      key: 'PROJ-2',
+      summary: 'Summary of PROJ-2',
+      issueType: 'Story',
+      status: 'In Progress',
+      subtotal: { count: 3, points: 5, doneCount: 0, blockedCount: 1 },
+    });
+  });
+
+  test('should list the counted issues of count metrics only', () => {
+    const blocked = buildBreakdown('EPIC-1', descendants, 'blockedCount', 'story_points');
+    expect(blocked.issueKeys).toEqual(['PROJ-21', 'PROJ-3']);
+    const done = buildBreakdown('EPIC-1', descendants, 'percentComplete', 'story_points');
+    expect(done.issueKeys).toEqual(['PROJ-1', 'PROJ-11']);
+    expect(buildBreakdown('EPIC-1', descendants, 'storyPointSum', 'story_points').issueKeys).toBeUndefined();
+  });
+
+  test('should cap the counted issue keys', () => {
+    const many = Array.from({ length: MAX_ISSUE_KEYS + 5 }, (_, i) =>
+      issue(`PROJ-${i}`, 'EPIC-1', 'Story', 'To Do'),
+    );
+    const breakdown = buildBreakdown('EPIC-1', many, 'childCount', 'story_points');
+    expect(breakdown.issueKeys).toHaveLength(MAX_ISSUE_KEYS);
+    expect(breakdown.issueKeyCount).toBe(MAX_ISSUE_KEYS + 5);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for changes.ts
+ *
+ * Tests which issue updates the trigger may skip for a given configuration,
+ * and how the previous parent of a moved issue is found.
+ */
+import { changesOwnFields, getJqlFields, getPreviousParentKeys, getSkipReason, getWatchedFields } from '../src/changes';
+import type { ConfigOverride, FieldConfig, IssueTriggerEvent } from '../src/types';
+
+describe('Trigger filtering', () => {
+  const definitions: FieldConfig[] = [
+    { type: 'storyPointSum', storyPointsField: 'customfield_10016' },
+    { type: 'custom', formula: 'SUM(field("customfield_10050") * (labels == "risk"))' },
+  ];
+  const overrides: ConfigOverride[] = [
+    { id: 'OPS|*|*', projectKey: 'OPS', settings: { storyPointsField: 'customfield_10028' } },
+  ];
+  const watched = getWatchedFields(definitions, overrides);
+
+  const update = (...items: Array<[field: string, fieldId?: string]>): IssueTriggerEvent => ({
+    eventType: 'avi:jira:updated:issue',
+    issue: { id: '1', key: 'PROJ-1' },
+    changelog: {
+      items: items.map(([field, fieldId]) => ({ field, fieldId, fromString: 'a', toString: 'b' })),
+    },
+    atlassianId: 'user',
+  });
+
+  test('should skip updates to fields no metric reads', () => {
+    expect(getSkipReason(update(['description'], ['summary']), watched)).toBe(
+      'only description, summary changed, which no metric depends on',
+    );
+    expect(getSkipReason(update(['timespent', 'timespent']), watched)).not.toBeNull();
+  });
+
+  test('should recompute on status, parent and configured fields', () => {
+    expect(getSkipReason(update(['status']), watched)).toBeNull();
+    expect(getSkipReason(update(['IssueParentAssociation']), watched)).toBeNull();
+    expect(getSkipReason(update(['Story Points', 'customfield_10016']), watched)).toBeNull();
+    expect(getSkipReason(update(['Story point estimate', 'customfield_10028']), watched)).toBeNull();
+    expect(getSkipReason(update(['Risk', 'customfield_10050']), watched)).toBeNull();
+    expect(getSkipReason(update(['labels']), watched)).toBeNull();
+  });
+
+  test('should watch time tracking only when a metric uses it', () => {
+    const timed = getWatchedFields([{ type: 'custom', formula: 'timeSpent / 8' }], []);
+    expect(getSkipReason(update(['timespent', 'timespent']), timed)).toBeNull();
+  });
+
+  test('should watch the due date only when a metric forecasts', () => {
+    expect(getSkipReason(update(['duedate']), watched)).not.toBeNull();
+    const forecasting = getWatchedFields([{ type: 'forecastCompletion' }], []);
+    expect(getSkipReason(update(['duedate']), forecasting)).toBeNull();
+    expect(changesOwnFields(update(['duedate']))).toBe(true);
+    expect(changesOwnFields(update(['status']))).toBe(false);
+  });
+
+  test('should watch the labels and flag field the status mapping reads', () => {
+    const plain = getWatchedFields([{ type: 'blockedCount' }], []);
+    expect(getSkipReason(update(['labels']), plain)).not.toBeNull();
+    expect(getSkipReason(update(['Flagged', 'customfield_10021']), plain)).not.toBeNull();
+
+    const mapped = getWatchedFields([{ type: 'blockedCount' }], [], {
+      doneCategories: ['done'],
+      doneStatuses: [],
+      excludedStatuses: [],
+      blockedStatuses: ['Blocked'],
+      blockedLabels: ['blocked'],
+      flagField: 'customfield_10021',
+    });
+    expect(getSkipReason(update(['labels']), mapped)).toBeNull();
+    expect(getSkipReason(update(['Flagged', 'customfield_10021']), mapped)).toBeNull();
+  });
+
+  test('should watch the fields a descendant filter reads', () => {
+    const filtered = getWatchedFields(
+      [{ type: 'childCount', filter: { components: { values: ['API'] }, jql: 'cf[10050] = 1 AND "Team" in (Core)' } }],
+      [],
+    );
+    expect(getSkipReason(update(['Component', 'components']), filtered)).toBeNull();
+    expect(getSkipReason(update(['Risk', 'customfield_10050']), filtered)).toBeNull();
+    expect(getSkipReason(update(['Team']), filtered)).toBeNull();
+    expect(getSkipReason(update(['description']), filtered)).not.toBeNull();
+    expect(getJqlFields('priority != Lowest OR labels not in (x) OR duedate is EMPTY')).toEqual([
+      'priority',
+      'labels',
+      'duedate',
+    ]);
+  });
+
+  test('should watch links and custom parent fields the hierarchy follows', () => {
+    const plain = getWatchedFields([{ type: 'childCount' }], []);
+    expect(getSkipReason(update(['Link']), plain)).not.toBeNull();
+
+    const linked = getWatchedFields([{ type: 'childCount' }], [], undefined, [
+      { kind: 'parentLink', field: 'customfield_10018' },
+      { kind: 'issueLink', linkType: 'Implements', direction: 'outward' },
+    ]);
+    expect(getSkipReason(update(['Link']), linked)).toBeNull();
+    expect(getSkipReason(update(['Initiative', 'customfield_10018']), linked)).toBeNull();
+  });
+
+  test('should never skip events without a changelog or of other types', () => {
+    expect(getSkipReason({ ...update(['summary']), eventType: 'avi:jira:created:issue' }, watched)).toBeNull();
+    expect(getSkipReason({ ...update(), changelog: undefined }, watched)).toBeNull();
+    expect(getSkipReason(update(), watched)).toBe('no fields changed');
+  });
+});
+
+describe('Re-parenting', () => {
+  const moved = (...items: Array<{ field: string; fromString: string | null }>): IssueTriggerEvent => ({
+    eventType: 'avi:jira:updated:issue',
+    issue: { id: '1', key: 'PROJ-5' },
+    changelog: { items: items.map((item) => ({ ...item, toString: 'PROJ-9' })) },
+    atlassianId: 'user',
+  });
+
+  test('should read the previous parent from parent and Parent Link from-values', () => {
+    expect(getPreviousParentKeys(moved({ field: 'IssueParentAssociation', fromString: 'PROJ-1' }))).toEqual(['PROJ-1']);
+    expect(getPreviousParentKeys(moved({ field: 'Parent Link', fromString: 'INIT-12 Platform revamp' }))).toEqual(['INIT-12']);
+  });
+
+  test('should read removed links and custom parent fields when they are followed', () => {
+    const strategies = [
+      { kind: 'parentLink' as const, field: 'customfield_10018' },
+      { kind: 'issueLink' as const, linkType: 'Implements', direction: 'outward' as const },
+    ];
+    const unlinked = moved({ field: 'Link', fromString: 'This issue implements EPIC-3' });
+    expect(getPreviousParentKeys(unlinked)).toEqual([]);
+    expect(getPreviousParentKeys(unlinked, strategies)).toEqual(['EPIC-3']);
+    const reparented = moved({ field: 'customfield_10018', fromString: 'INIT-4' });
+    expect(getPreviousParentKeys(reparented, strategies)).toEqual(['INIT-4']);
+  });
+
+  test('should return nothing when the issue had no parent or did not move', () => {
+    expect(getPreviousParentKeys(moved({ field: 'IssueParentAssociation', fromString: null }))).toEqual([]);
+    expect(getPreviousParentKeys(moved({ field: 'status', fromString: 'To Do' }))).toEqual([]);
+  });
+});
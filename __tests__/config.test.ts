@@ -0,0 +1,140 @@
+/**
+ * Unit tests for config.ts
+ *
+ * Tests layered resolution of metric definitions and scoped overrides, and
+ * parsing of descendant filters and the status mapping.
+ */
+import {
+  normalizeDefinition,
+  normalizeStatusSemantics,
+  normalizeTraversalStrategies,
+  resolveDefinitions,
+} from '../src/config';
+import type { ConfigOverride, MetricDefinition } from '../src/types';
+
+describe('Config override resolution', () => {
+  const definitions: MetricDefinition[] = [
+    { id: 'sp', name: 'Story Points', type: 'storyPointSum', storyPointsField: 'story_points' },
+    { id: 'pct', name: '% Complete', type: 'percentComplete' },
+  ];
+
+  const overrides: ConfigOverride[] = [
+    {
+      id: 'ENG|Epic|*',
+      projectKey: 'ENG',
+      issueType: 'Epic',
+      settings: { thresholds: [5, 10] },
+    },
+    {
+      id: 'ENG|*|*',
+      projectKey: 'ENG',
+      settings: { storyPointsField: 'customfield_10028', thresholds: [40, 80] },
+    },
+    {
+      id: '*|Initiative|sp',
+      issueType: 'Initiative',
+      metricId: 'sp',
+      settings: { maxDepth: 4 },
+    },
+  ];
+
+  test('should return site defaults when no override matches', () => {
+    const resolved = resolveDefinitions(definitions, overrides, { projectKey: 'OPS', issueType: 'Epic' });
+    expect(resolved).toEqual(definitions);
+  });
+
+  test('should apply project overrides to every metric', () => {
+    const resolved = resolveDefinitions(definitions, overrides, { projectKey: 'ENG', issueType: 'Story' });
+    expect(resolved[0].storyPointsField).toBe('customfield_10028');
+    expect(resolved[1].storyPointsField).toBe('customfield_10028');
+    expect(resolved[0].thresholds).toEqual([40, 80]);
+  });
+
+  test('should let issue-type overrides win over project overrides', () => {
+    const resolved = resolveDefinitions(definitions, overrides, { projectKey: 'ENG', issueType: 'Epic' });
+    expect(resolved[0].thresholds).toEqual([5, 10]);
+    expect(resolved[0].storyPointsField).toBe('customfield_10028');
+  });
+
+  test('should restrict metric-specific overrides to that metric', () => {
+    const resolved = resolveDefinitions(definitions, overrides, { projectKey: 'OPS', issueType: 'initiative' });
+    expect(resolved[0].maxDepth).toBe(4);
+    expect(resolved[1].maxDepth).toBeUndefined();
+  });
+});
+
+describe('Status mapping', () => {
+  test('should accept comma-separated lists and drop blanks and duplicates', () => {
+    expect(
+      normalizeStatusSemantics({
+        doneCategories: 'Done',
+        doneStatuses: ['Released', ' Released ', ''],
+        excludedStatuses: "Won't Do, Duplicate,",
+        blockedStatuses: 'Blocked, On Hold, Impeded',
+        blockedLabels: '',
+        flagField: ' customfield_10021 ',
+      }),
+    ).toEqual({
+      doneCategories: ['done'],
+      doneStatuses: ['Released'],
+      excludedStatuses: ["Won't Do", 'Duplicate'],
+      blockedStatuses: ['Blocked', 'On Hold', 'Impeded'],
+      blockedLabels: [],
+      flagField: 'customfield_10021',
+    });
+  });
+
+  test('should require something to count as done', () => {
+    expect(() => normalizeStatusSemantics({ doneCategories: '', doneStatuses: [] })).toThrow(
+      'At least one status category or status must count as done',
+    );
+  });
+});
+
+describe('Descendant filter', () => {
+  const normalize = (filter: any) => normalizeDefinition({ name: 'Open work', filter }, []).filter;
+
+  test('should keep only conditions with values', () => {
+    expect(
+      normalize({
+        issueTypes: { values: 'Sub-task, Spike', exclude: true },
+        statuses: { values: '' },
+        labels: { values: ['tech-debt'] },
+        jql: ' priority != Lowest ',
+      }),
+    ).toEqual({
+      issueTypes: { values: ['Sub-task', 'Spike'], exclude: true },
+      labels: { values: ['tech-debt'], exclude: false },
+      jql: 'priority != Lowest',
+    });
+    expect(normalize({ statuses: { values: ' ' } })).toBeUndefined();
+  });
+
+  test('should reject JQL that sorts', () => {
+    expect(() => normalize({ jql: 'priority = High ORDER BY rank' })).toThrow('cannot contain ORDER BY');
+  });
+});
+
+describe('Hierarchy traversal', () => {
+  test('should keep valid strategies once each', () => {
+    expect(
+      normalizeTraversalStrategies([
+        { kind: 'parent' },
+        { kind: 'parentLink', field: ' customfield_10018 ', maxDepth: '2' },
+        { kind: 'issueLink', linkType: 'Implements', direction: 'outward', maxDepth: 0 },
+        { kind: 'parent', maxDepth: 3 },
+      ]),
+    ).toEqual([
+      { kind: 'parent' },
+      { kind: 'parentLink', field: 'customfield_10018', maxDepth: 2 },
+      { kind: 'issueLink', linkType: 'Implements', direction: 'outward' },
+    ]);
+  });
+
+  test('should reject incomplete or unknown strategies', () => {
+    expect(() => normalizeTraversalStrategies([])).toThrow('At least one');
+    expect(() => normalizeTraversalStrategies([{ kind: 'parentLink', field: '' }])).toThrow('needs a field id');
+    expect(() => normalizeTraversalStrategies([{ kind: 'issueLink' }])).toThrow('needs a link type');
+    expect(() => normalizeTraversalStrategies([{ kind: 'sibling' }])).toThrow('Unknown hierarchy relationship');
+  });
+});
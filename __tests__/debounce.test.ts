@@ -0,0 +1,167 @@
+/**
+ * Unit tests for debounce.ts
+ *
+ * Simulates bursts of trigger events against a fake storage, queue and
+ * clock, and checks that each key is recomputed once, after its last change.
+ */
+import { createDebouncer, MAX_WAIT_MS, ORPHANED_AFTER_MS, QUIET_PERIOD_MS } from '../src/debounce';
+import type { DebounceEvent, DebounceStore, Debouncer } from '../src/debounce';
+
+// ─── Harness ────────────────────────────────────────────────────────────────
+
+class FakeStorage implements DebounceStore {
+  readonly data = new Map<string, any>();
+  async get(key: string) {
+    return this.data.get(key);
+  }
+  async set(key: string, value: any) {
+    this.data.set(key, value);
+  }
+  async delete(key: string) {
+    this.data.delete(key);
+  }
+}
+
+/** Holds queued events until the fake clock reaches their delivery time. */
+class Harness {
+  time = 0;
+  readonly store = new FakeStorage();
+  readonly pending: Array<{ at: number; event: DebounceEvent }> = [];
+  readonly recomputed: Array<{ key: string; at: number }> = [];
+  /** Set to make the next push throw. */
+  failNextPush = false;
+  onRecompute: (key: string) => Promise<void> = async () => {};
+  readonly debouncer: Debouncer;
+
+  constructor() {
+    this.debouncer = createDebouncer({
+      store: this.store,
+      queue: {
+        push: async (event, delayInSeconds) => {
+          if (this.failNextPush) {
+            this.failNextPush = false;
+            throw new Error('queue unavailable');
+          }
+          this.pending.push({ at: this.time + delayInSeconds * 1000, event });
+        },
+      },
+      recompute: async (key) => {
+        this.recomputed.push({ key, at: this.time });
+        await this.onRecompute(key);
+      },
+      now: () => this.time,
+    });
+  }
+
+  /** Advances the clock, delivering every event that falls due on the way. */
+  async advance(ms: number): Promise<void> {
+    const until = this.time + ms;
+    for (;;) {
+      this.pending.sort((a, b) => a.at - b.at);
+      const next = this.pending[0];
+      if (!next || next.at > until) break;
+      this.pending.shift();
+      this.time = next.at;
+      await this.debouncer.process(next.event);
+    }
+    this.time = until;
+  }
+
+  /** Marks `keys` every `intervalMs`, `count` times. */
+  async burst(keys: string[], count: number, intervalMs: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await this.debouncer.markDirty(keys);
+      await this.advance(intervalMs);
+    }
+  }
+
+  async settle(): Promise<void> {
+    await this.advance(MAX_WAIT_MS * 2);
+  }
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe('Trailing debounce', () => {
+  let h: Harness;
+
+  beforeEach(() => {
+    h = new Harness();
+  });
+
+  test('should recompute once after a burst settles', async () => {
+    await h.burst(['EPIC-1'], 10, 1000);
+    await h.settle();
+    expect(h.recomputed).toEqual([{ key: 'EPIC-1', at: 9000 + QUIET_PERIOD_MS }]);
+  });
+
+  test('should coalesce duplicate marks into a single queued event', async () => {
+    await h.debouncer.markDirty(['EPIC-1', 'EPIC-1', 'INIT-1']);
+    await h.debouncer.markDirty(['EPIC-1']);
+    expect(h.pending.map((p) => p.event.issueKey)).toEqual(['EPIC-1', 'INIT-1']);
+    await h.settle();
+    expect(h.recomputed.map((r) => r.key).sort()).toEqual(['EPIC-1', 'INIT-1']);
+  });
+
+  test('should not drop the last change of a burst', async () => {
+    await h.debouncer.markDirty(['EPIC-1']);
+    await h.advance(QUIET_PERIOD_MS + 1000);
+    expect(h.recomputed).toHaveLength(1);
+
+    // A change right after a recompute still gets one of its own
+    await h.debouncer.markDirty(['EPIC-1']);
+    await h.settle();
+    expect(h.recomputed).toHaveLength(2);
+  });
+
+  test('should recompute again when a change lands during a recompute', async () => {
+    h.onRecompute = async (key) => {
+      if (h.recomputed.length === 1) await h.debouncer.markDirty([key]);
+    };
+    await h.debouncer.markDirty(['EPIC-1']);
+    await h.settle();
+    expect(h.recomputed).toHaveLength(2);
+  });
+
+  test('should not wait longer than the maximum during a continuous burst', async () => {
+    await h.burst(['EPIC-1'], 120, 1000);
+    await h.settle();
+    expect(h.recomputed[0].at).toBeLessThanOrEqual(MAX_WAIT_MS + QUIET_PERIOD_MS);
+    expect(h.recomputed[h.recomputed.length - 1].at).toBeGreaterThan(119000);
+    expect(h.store.data.size).toBe(0);
+  });
+});
+
+describe('Lost events', () => {
+  let h: Harness;
+
+  beforeEach(() => {
+    h = new Harness();
+  });
+
+  test('should leave a key unmarked when its event cannot be queued', async () => {
+    h.failNextPush = true;
+    await expect(h.debouncer.markDirty(['EPIC-1'])).rejects.toThrow('queue unavailable');
+    expect(h.store.data.size).toBe(0);
+
+    // The next change queues it as usual
+    await h.debouncer.markDirty(['EPIC-1']);
+    await h.settle();
+    expect(h.recomputed.map((r) => r.key)).toEqual(['EPIC-1']);
+  });
+
+  test('should queue a key again once its event was lost', async () => {
+    await h.debouncer.markDirty(['EPIC-1']);
+    // The consumer died before it cleared the entry
+    h.pending.length = 0;
+    await h.advance(MAX_WAIT_MS);
+    await h.debouncer.markDirty(['EPIC-1']);
+    expect(h.pending).toHaveLength(0);
+
+    await h.advance(ORPHANED_AFTER_MS);
+    await h.debouncer.markDirty(['EPIC-1']);
+    await h.settle();
+    expect(h.recomputed).toEqual([{ key: 'EPIC-1', at: MAX_WAIT_MS + ORPHANED_AFTER_MS + QUIET_PERIOD_MS }]);
+    expect(h.store.data.size).toBe(0);
+  });
+});
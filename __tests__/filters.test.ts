@@ -0,0 +1,73 @@
+/**
+ * Unit tests for filters.ts
+ *
+ * Turns descendant filters into JQL and applies them to fetched issues.
+ */
+import { filterDescendants, filterToJql, hasFilter, matchesFilter } from '../src/filters';
+import type { DescendantFilter, JiraIssue } from '../src/types';
+
+function issue(key: string, parentKey: string, type: string, extra: Partial<JiraIssue['fields']> = {}): JiraIssue {
+  return {
+    id: key,
+    key,
+    parentKey,
+    fields: {
+      status: { name: 'To Do', statusCategory: { key: 'new', name: 'To Do' } },
+      issuetype: { name: type },
+      ...extra,
+    },
+  };
+}
+
+describe('filterToJql', () => {
+  test('should build one clause per condition', () => {
+    const filter: DescendantFilter = {
+      issueTypes: { values: ['Sub-task', 'Spike'], exclude: true },
+      components: { values: ['API'] },
+      jql: 'priority != Lowest OR priority is EMPTY',
+    };
+    expect(filterToJql(filter)).toBe(
+      'issuetype not in ("Sub-task", "Spike") AND component in ("API") AND (priority != Lowest OR priority is EMPTY)',
+    );
+  });
+
+  test('should keep issues without labels when excluding labels', () => {
+    expect(filterToJql({ labels: { values: ['tech-debt'], exclude: true } })).toBe(
+      '(labels not in ("tech-debt") OR labels is EMPTY)',
+    );
+  });
+
+  test('should escape quotes and ignore empty conditions', () => {
+    expect(filterToJql({ statuses: { values: ['Won"t Do'], exclude: true } })).toBe('status not in ("Won\\"t Do")');
+    expect(filterToJql({ statuses: { values: [] }, jql: '  ' })).toBe('');
+    expect(hasFilter({ statuses: { values: [] } })).toBe(false);
+    expect(hasFilter(undefined)).toBe(false);
+  });
+});
+
+describe('matchesFilter', () => {
+  test('should match any listed value, case-insensitively', () => {
+    const filter: DescendantFilter = { labels: { values: ['Backend'] } };
+    expect(matchesFilter(issue('A-1', 'E-1', 'Story', { labels: ['backend', 'ui'] }), filter)).toBe(true);
+    expect(matchesFilter(issue('A-2', 'E-1', 'Story', { labels: [] }), filter)).toBe(false);
+  });
+
+  test('should invert excluding conditions', () => {
+    const filter: DescendantFilter = { components: { values: ['Docs'], exclude: true } };
+    expect(matchesFilter(issue('A-1', 'E-1', 'Story', { components: [{ name: 'docs' }] }), filter)).toBe(false);
+    expect(matchesFilter(issue('A-2', 'E-1', 'Story'), filter)).toBe(true);
+  });
+});
+
+describe('filterDescendants', () => {
+  test('should drop the subtree of an issue that is left out', () => {
+    const issues = [
+      issue('A-1', 'E-1', 'Story'),
+      issue('A-2', 'A-1', 'Sub-task'),
+      issue('A-3', 'E-1', 'Spike'),
+      issue('A-4', 'A-3', 'Story'),
+    ];
+    const kept = filterDescendants(issues, { issueTypes: { values: ['Sub-task', 'Spike'], exclude: true } });
+    expect(kept.map((i) => i.key)).toEqual(['A-1']);
+  });
+});
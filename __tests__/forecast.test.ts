@@ -0,0 +1,125 @@
+/**
+ * Unit tests for forecast.ts
+ *
+ * Projects completion dates from synthetic burn histories, and checks the
+ * label and colour of the forecastCompletion formula type.
+ */
+import { forecastCompletion, WINDOW_DAYS } from '../src/forecast';
+import { computeFromTotals } from '../src/formulas';
+import type { BurnSample, RollupTotals } from '../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-03-01T12:00:00Z');
+
+/** One sample a day for the last `days` days, ending now. */
+function burnDown(days: number, remainingAt: (daysAgo: number) => number): BurnSample[] {
+  return Array.from({ length: days + 1 }, (_, i) => {
+    const daysAgo = days - i;
+    return {
+      at: new Date(NOW - daysAgo * DAY).toISOString(),
+      remainingPoints: remainingAt(daysAgo),
+      doneCount: 0,
+    };
+  });
+}
+
+describe('forecastCompletion', () => {
+  test('should project a steady burn rate forward', () => {
+    // 2 SP a day, 20 left → 10 days
+    const forecast = forecastCompletion(burnDown(10, (d) => 20 + 2 * d), 5, NOW);
+    expect(forecast).toMatchObject({ velocity: 2, unit: 'points' });
+    if (typeof forecast === 'string') throw new Error(forecast);
+    expect(forecast.date).toBeCloseTo(NOW + 10 * DAY, -3);
+    // A perfectly steady burn has no spread
+    expect(forecast.earliest).toBeCloseTo(forecast.date, -3);
+    expect(forecast.latest).toBeCloseTo(forecast.date, -3);
+  });
+
+  test('should widen the range for an uneven burn', () => {
+    const forecast = forecastCompletion(burnDown(10, (d) => 20 + 2 * d + (d % 2 ? 3 : -3)), 5, NOW);
+    if (typeof forecast === 'string') throw new Error(forecast);
+    expect(forecast.earliest).toBeLessThan(forecast.date);
+    expect(forecast.latest!).toBeGreaterThan(forecast.date);
+  });
+
+  test('should only use samples inside the window', () => {
+    // Fast long ago, 1 SP a day recently
+    const samples = burnDown(WINDOW_DAYS + 20, (d) => (d > WINDOW_DAYS ? 10 + d * 5 : 10 + d));
+    const forecast = forecastCompletion(samples, 5, NOW);
+    expect(forecast).toMatchObject({ velocity: 1 });
+  });
+
+  test('should count items when no points are left', () => {
+    const samples = Array.from({ length: 5 }, (_, i) => ({
+      at: new Date(NOW - (4 - i) * DAY).toISOString(),
+      remainingPoints: 0,
+      doneCount: i,
+    }));
+    const forecast = forecastCompletion(samples, 3, NOW);
+    expect(forecast).toMatchObject({ velocity: 1, unit: 'items' });
+  });
+
+  test('should report why no date can be projected', () => {
+    expect(forecastCompletion(burnDown(5, () => 0), 0, NOW)).toBe('complete');
+    expect(forecastCompletion(burnDown(0, () => 10), 3, NOW)).toBe('insufficientHistory');
+    expect(forecastCompletion(burnDown(5, () => 10), 3, NOW)).toBe('noProgress');
+    // Scope growing faster than work gets done
+    expect(forecastCompletion(burnDown(5, (d) => 10 - d), 3, NOW)).toBe('noProgress');
+  });
+});
+
+describe('forecastCompletion formula type', () => {
+  const totals = (remainingPoints: number, doneCount = 5): RollupTotals => ({
+    childCount: 10,
+    totalStoryPoints: 40,
+    doneCount,
+    inProgressCount: 0,
+    donePoints: 40 - remainingPoints,
+    inProgressPoints: 0,
+    blockedCount: 0,
+    originalEstimate: 0,
+    timeSpent: 0,
+    remainingEstimate: 0,
+  });
+  // 2 SP a day until now, 20 left → 11 Mar
+  const samples = burnDown(10, (d) => 20 + 2 * d).slice(0, -1);
+  const forecast = (dueDate?: string) =>
+    computeFromTotals(totals(20), { type: 'forecastCompletion' }, { samples, dueDate, now: NOW });
+
+  test('should label the projected date and range', () => {
+    expect(forecast('2024-03-31')).toMatchObject({
+      value: 10,
+      label: '~11 Mar',
+      color: 'green',
+      formulaType: 'forecastCompletion',
+    });
+  });
+
+  test('should colour by the due date', () => {
+    expect(forecast('2024-03-11').color).toBe('green');
+    expect(forecast('2024-03-05').color).toBe('red');
+
+    // Projected on time, but the slow end of an uneven burn is late
+    const uneven = burnDown(10, (d) => 20 + 2 * d + (d % 2 ? 3 : -3)).slice(0, -1);
+    const result = computeFromTotals(
+      totals(20),
+      { type: 'forecastCompletion' },
+      { samples: uneven, dueDate: '2024-03-12', now: NOW },
+    );
+    expect(result.label).toMatch(/^~\d+ Mar \(\d+ Mar – \d+ Mar\)$/);
+    expect(result.color).toBe('yellow');
+  });
+
+  test('should fall back to the thresholds in days without a due date', () => {
+    expect(forecast().color).toBe('green');
+    const config = { type: 'forecastCompletion' as const, thresholds: [5, 8] as [number, number] };
+    expect(computeFromTotals(totals(20), config, { samples, now: NOW }).color).toBe('red');
+  });
+
+  test('should explain a missing forecast', () => {
+    expect(computeFromTotals(totals(20), { type: 'forecastCompletion' }).label).toBe('Not enough history');
+    expect(computeFromTotals(totals(0, 10), { type: 'forecastCompletion' }, { samples, now: NOW }).label).toBe(
+      'Complete',
+    );
+  });
+});
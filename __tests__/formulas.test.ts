@@ -3,8 +3,24 @@
  * 
  * Tests the DSL parser, computation engine, and edge cases.
  */
-import { computeAggregate, parseExpression, createMockContext } from '../src/formulas';
-import type { FieldConfig, JiraIssue, FormulaContext } from '../src/types';
+import {
+  computeAggregate,
+  parseExpression,
+  createMockContext,
+  formatDuration,
+  extractFieldReferences,
+  extractContextVariables,
+  previewAggregate,
+  compileFormula,
+  clearFormulaCache,
+  computeFromTotals,
+  canComputeFromTotals,
+  snapshotIssue,
+  sumTotals,
+  sumTotalsByDepth,
+} from '../src/formulas';
+import { FormulaError, validateFormula } from '../src/parser';
+import type { FieldConfig, JiraIssue, FormulaContext, StatusSemantics } from '../src/types';
 
 describe('Formula Parser', () => {
   let ctx: FormulaContext;
@@ -157,28 +173,118 @@ describe('Formula Parser', () => {
     });
   });
 
+  describe('Logical operators', () => {
+    test('should handle AND / OR / NOT', () => {
+      expect(parseExpression('percentComplete > 50 AND doneCount > 5', ctx)).toBe(1);
+      expect(parseExpression('percentComplete > 80 AND doneCount > 5', ctx)).toBe(0);
+      expect(parseExpression('percentComplete > 80 OR doneCount > 5', ctx)).toBe(1);
+      expect(parseExpression('NOT percentComplete > 80', ctx)).toBe(1);
+      expect(parseExpression('not (doneCount > 5)', ctx)).toBe(0);
+    });
+
+    test('should accept symbolic operators', () => {
+      expect(parseExpression('doneCount > 5 && undoneCount > 5', ctx)).toBe(0);
+      expect(parseExpression('doneCount > 5 || undoneCount > 5', ctx)).toBe(1);
+      expect(parseExpression('!(doneCount > 5)', ctx)).toBe(0);
+      expect(parseExpression('10 != 5 && !0', ctx)).toBe(1);
+    });
+
+    test('should bind AND tighter than OR and looser than comparisons', () => {
+      expect(parseExpression('1 OR 0 AND 0', ctx)).toBe(1);
+      expect(parseExpression('(1 OR 0) AND 0', ctx)).toBe(0);
+      expect(parseExpression('childCount == 10 AND totalStoryPoints == 50', ctx)).toBe(1);
+    });
+
+    test('should combine logical operators inside IF', () => {
+      const risky = createMockContext({ blockedCount: 2, percentComplete: 40 });
+      const formula = 'IF(blockedCount > 0 AND percentComplete < 50, 3, 1)';
+      expect(parseExpression(formula, risky)).toBe(3);
+      expect(parseExpression(formula, ctx)).toBe(1);
+    });
+
+    test('should short-circuit the right-hand side', () => {
+      // Reading this issue's fields throws, so any evaluation of the
+      // aggregate would fail the test
+      const untouchable = {
+        id: '1',
+        key: 'A-1',
+        get fields(): JiraIssue['fields'] {
+          throw new Error('right-hand side was evaluated');
+        },
+      };
+      const rows = createMockContext({ children: [untouchable] });
+      expect(parseExpression('1 OR COUNT(status == "Blocked")', rows)).toBe(1);
+      expect(parseExpression('0 AND COUNT(status == "Blocked")', rows)).toBe(0);
+      expect(parseExpression('IF(1, 2, SUM(storyPoints))', rows)).toBe(2);
+      expect(() => parseExpression('0 OR COUNT(status == "Blocked")', rows)).toThrow();
+    });
+  });
+
+  describe('String literals and field access', () => {
+    const issue = (fields: Record<string, any>) => ({ id: '1', key: 'A-1', fields });
+    const rows = createMockContext({
+      children: [
+        issue({ status: { name: "Won't Do", statusCategory: { key: 'done', name: 'Done' } }, labels: ['backend', 'api'] }),
+        issue({ status: { name: 'In Review', statusCategory: { key: 'indeterminate', name: 'In Progress' } }, labels: ['frontend'], priority: { name: 'High' } }),
+        issue({ status: { name: 'Blocked', statusCategory: { key: 'indeterminate', name: 'In Progress' } }, labels: [], customfield_10021: [{ value: 'Impediment' }] }),
+      ],
+    });
+
+    test('should accept single and double quoted strings with escapes', () => {
+      expect(parseExpression('COUNT(status == "Won\'t Do")', rows)).toBe(1);
+      expect(parseExpression("COUNT(status == 'Won\\'t Do')", rows)).toBe(1);
+      expect(parseExpression("COUNT(status == 'in review')", rows)).toBe(1);
+      expect(parseExpression('"abc" == \'ABC\'', ctx)).toBe(1);
+      expect(parseExpression('"abc" != "abd"', ctx)).toBe(1);
+    });
+
+    test('should compare against label names', () => {
+      expect(parseExpression('COUNT(labels == "backend")', rows)).toBe(1);
+      expect(parseExpression('COUNT(field("labels") == "frontend" OR field("labels") == "api")', rows)).toBe(2);
+      expect(parseExpression('COUNT(NOT labels)', rows)).toBe(1);
+    });
+
+    test('should read arbitrary and nested fields', () => {
+      expect(parseExpression('COUNT(field("priority") == "High")', rows)).toBe(1);
+      expect(parseExpression('COUNT(field("customfield_10021") == "Impediment")', rows)).toBe(1);
+      expect(parseExpression('COUNT(field("status.statusCategory.key") == "done")', rows)).toBe(1);
+      expect(parseExpression('COUNT(field("missing") == "x")', rows)).toBe(0);
+    });
+
+    test('should reject field() outside an aggregate', () => {
+      expect(() => parseExpression('field("labels") + 1', rows)).toThrow(FormulaError);
+    });
+  });
+
   describe('Edge cases and error handling', () => {
     test('should handle empty expressions', () => {
       expect(parseExpression('', ctx)).toBe(0);
       expect(parseExpression(' ', ctx)).toBe(0);
     });
 
-    test('should handle unknown variables', () => {
-      expect(parseExpression('unknownVar', ctx)).toBe(0);
+    test('should reject unknown variables', () => {
+      expect(() => parseExpression('unknownVar', ctx)).toThrow(FormulaError);
     });
 
     test('should handle division by zero', () => {
       expect(parseExpression('10 / 0', ctx)).toBe(0);
     });
 
-    test('should handle malformed parentheses gracefully', () => {
-      // These should not crash, even if they parse incorrectly
-      expect(() => parseExpression('(5 + 3', ctx)).not.toThrow();
-      expect(() => parseExpression('5 + 3)', ctx)).not.toThrow();
+    test('should reject malformed parentheses', () => {
+      expect(() => parseExpression('(5 + 3', ctx)).toThrow("Column 7: Expected ')' but the formula ended");
+      expect(() => parseExpression('5 + 3)', ctx)).toThrow("Column 6: Unexpected ')'");
     });
 
-    test('should handle unknown functions', () => {
-      expect(() => parseExpression('UNKNOWN(5)', ctx)).not.toThrow();
+    test('should reject unknown functions', () => {
+      expect(() => parseExpression('UNKNOWN(5)', ctx)).toThrow(FormulaError);
+    });
+
+    test('should report a formula error result for invalid custom formulas', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const result = computeAggregate([], { type: 'custom', formula: 'totalStoryPonts * 2' });
+      expect(result.label).toBe('Formula error');
+      expect(result.color).toBe('red');
+      jest.restoreAllMocks();
     });
   });
 
@@ -262,6 +368,32 @@ describe('Aggregate computation', () => {
     expect(result.label).toBe('67%');
   });
 
+  test('should weight percentage complete by story points', () => {
+    const config: FieldConfig = { type: 'percentCompleteByPoints' };
+    const result = computeAggregate(mockIssues, config);
+    expect(result.value).toBe(81); // 13 of 16 SP done
+    expect(result.label).toBe('81% of SP');
+    expect(result.segments).toEqual({ todo: 0, inProgress: 19, done: 81 });
+  });
+
+  test('should report three-state progress by status category', () => {
+    const issues: JiraIssue[] = [
+      ...mockIssues,
+      {
+        id: '4',
+        key: 'PROJ-4',
+        fields: {
+          status: { name: 'To Do', statusCategory: { key: 'new', name: 'To Do' } },
+          story_points: 2,
+        },
+      },
+    ];
+    const result = computeAggregate(issues, { type: 'statusProgress' });
+    expect(result.segments).toEqual({ todo: 25, inProgress: 25, done: 50 });
+    expect(result.value).toBe(50);
+    expect(result.label).toBe('50% done · 25% in progress');
+  });
+
   test('should compute remaining work correctly', () => {
     const config: FieldConfig = { type: 'undoneWork' };
     const result = computeAggregate(mockIssues, config);
@@ -309,4 +441,376 @@ describe('Aggregate computation', () => {
     const result = computeAggregate(customIssues, config);
     expect(result.value).toBe(16); // Should work with custom field
   });
-});
\ No newline at end of file
+});
+describe('Time tracking rollups', () => {
+  const hour = 3600;
+  const timedIssues: JiraIssue[] = [
+    {
+      id: '1',
+      key: 'PROJ-1',
+      fields: {
+        status: { name: 'Done', statusCategory: { key: 'done', name: 'Done' } },
+        timeoriginalestimate: 16 * hour,
+        timespent: 20 * hour,
+        timeestimate: 0,
+      },
+    },
+    {
+      id: '2',
+      key: 'PROJ-2',
+      fields: {
+        status: { name: 'In Progress', statusCategory: { key: 'indeterminate', name: 'In Progress' } },
+        timetracking: {
+          originalEstimateSeconds: 24 * hour,
+          timeSpentSeconds: 8 * hour,
+          remainingEstimateSeconds: 20 * hour,
+        },
+      },
+    },
+    {
+      id: '3',
+      key: 'PROJ-3',
+      fields: {
+        status: { name: 'To Do', statusCategory: { key: 'new', name: 'To Do' } },
+        timeoriginalestimate: null,
+        timespent: null,
+        timeestimate: null,
+      },
+    },
+  ];
+
+  test('should sum logged time with a duration label', () => {
+    const result = computeAggregate(timedIssues, { type: 'timeSpentSum' });
+    expect(result.value).toBe(28);
+    expect(result.label).toBe('3d 4h logged');
+  });
+
+  test('should sum remaining estimates', () => {
+    const result = computeAggregate(timedIssues, { type: 'remainingEstimate', hoursPerDay: 10 });
+    expect(result.value).toBe(20);
+    expect(result.label).toBe('2d left');
+  });
+
+  test('should compare projected effort to the original estimate', () => {
+    const result = computeAggregate(timedIssues, { type: 'estimateAccuracy' });
+    expect(result.value).toBe(120); // (28 + 20) / 40
+    expect(result.label).toBe('120% of estimate');
+    expect(result.color).toBe('yellow');
+  });
+
+  test('should report missing estimates in grey', () => {
+    const result = computeAggregate([timedIssues[2]], { type: 'estimateAccuracy' });
+    expect(result.color).toBe('grey');
+  });
+
+  test('should expose time variables to custom formulas', () => {
+    const config: FieldConfig = { type: 'custom', formula: 'timeSpent + remainingEstimate - originalEstimate' };
+    expect(computeAggregate(timedIssues, config).value).toBe(8);
+  });
+
+  test('should format durations', () => {
+    expect(formatDuration(0)).toBe('0h');
+    expect(formatDuration(0.5)).toBe('30m');
+    expect(formatDuration(28)).toBe('3d 4h');
+    expect(formatDuration(16)).toBe('2d');
+    expect(formatDuration(9.5)).toBe('1d 1h');
+  });
+});
+
+describe('Aggregate functions over descendants', () => {
+  const status = (name: string, key: string) => ({ name, statusCategory: { key, name } });
+  const issues: JiraIssue[] = [
+    { id: '1', key: 'PROJ-1', fields: { status: status('Blocked', 'indeterminate'), issuetype: { name: 'Bug' }, story_points: 3, customfield_10050: 10 } },
+    { id: '2', key: 'PROJ-2', fields: { status: status('Done', 'done'), issuetype: { name: 'Story' }, story_points: 5, customfield_10050: 20 } },
+    { id: '3', key: 'PROJ-3', fields: { status: status('To Do', 'new'), issuetype: { name: 'Bug' }, story_points: 8, customfield_10050: { value: '30' } } },
+    { id: '4', key: 'PROJ-4', fields: { status: status('Blocked', 'indeterminate'), issuetype: { name: 'Story' }, story_points: 1 } },
+  ];
+  const evaluate = (formula: string) =>
+    computeAggregate(issues, { type: 'custom', formula }).value;
+
+  test('should count descendants matching a condition', () => {
+    expect(evaluate('COUNT()')).toBe(4);
+    expect(evaluate('COUNT(status == "Blocked")')).toBe(2);
+    expect(evaluate('COUNTIF(issuetype == "bug")')).toBe(2);
+    expect(evaluate('COUNT(statusCategory != "done")')).toBe(3);
+  });
+
+  test('should sum, average and rank per-descendant values', () => {
+    expect(evaluate('SUM(storyPoints)')).toBe(17);
+    expect(evaluate('SUM(field("customfield_10050"))')).toBe(60);
+    expect(evaluate('AVG(storyPoints)')).toBe(4.25);
+    expect(evaluate('MEDIAN(storyPoints)')).toBe(4);
+    expect(evaluate('PERCENTILE(storyPoints, 100)')).toBe(8);
+    expect(evaluate('PERCENTILE(storyPoints, 50)')).toBe(4);
+  });
+
+  test('should express open bug points', () => {
+    expect(evaluate('SUM(storyPoints * (issuetype == "Bug") * (done == 0))')).toBe(11);
+  });
+
+  test('should combine aggregates with context variables', () => {
+    expect(evaluate('ROUND(COUNT(status == "Blocked") * 100 / childCount)')).toBe(50);
+  });
+
+  test('should return 0 for aggregates without descendants', () => {
+    const ctx = createMockContext();
+    expect(parseExpression('SUM(storyPoints) + COUNT(status == "Blocked") + 1', ctx)).toBe(1);
+  });
+
+  test('should list fields referenced by a formula', () => {
+    expect(extractFieldReferences('SUM(field("customfield_10050")) + COUNT(field("labels") == "x")'))
+      .toEqual(['customfield_10050', 'labels']);
+  });
+
+  test('should list fields read by row variables beyond the standard search fields', () => {
+    expect(extractFieldReferences('COUNT(labels == "backend") + SUM(storyPoints)')).toEqual(['labels']);
+    expect(extractFieldReferences('COUNT(status == "Blocked")')).toEqual([]);
+  });
+});
+
+describe('Status mapping', () => {
+  const status = (name: string, key: string) => ({ name, statusCategory: { key, name } });
+  const issues: JiraIssue[] = [
+    { id: '1', key: 'PROJ-1', fields: { status: status('Done', 'done'), story_points: 5 } },
+    { id: '2', key: 'PROJ-2', fields: { status: status("Won't Do", 'done'), story_points: 8 } },
+    { id: '3', key: 'PROJ-3', fields: { status: status('On Hold', 'indeterminate'), story_points: 3 } },
+    { id: '4', key: 'PROJ-4', fields: { status: status('To Do', 'new'), story_points: 2, customfield_10021: [{ value: 'Impediment' }] } },
+  ];
+  const statusSemantics: StatusSemantics = {
+    doneCategories: ['done'],
+    doneStatuses: [],
+    excludedStatuses: ["Won't Do"],
+    blockedStatuses: ['On Hold'],
+    blockedLabels: [],
+    flagField: 'customfield_10021',
+  };
+  const evaluate = (formula: string, semantics?: StatusSemantics) =>
+    computeAggregate(issues, { type: 'custom', formula, statusSemantics: semantics }).value;
+
+  test('should leave excluded issues out of every count and sum', () => {
+    expect(evaluate('childCount', statusSemantics)).toBe(3);
+    expect(evaluate('totalStoryPoints', statusSemantics)).toBe(10);
+    expect(evaluate('COUNT()', statusSemantics)).toBe(3);
+    expect(evaluate('SUM(storyPoints * done)', statusSemantics)).toBe(5);
+    expect(evaluate('percentComplete', statusSemantics)).toBe(33);
+  });
+
+  test('should count blocked statuses and flags as configured', () => {
+    expect(evaluate('blockedCount')).toBe(0);
+    expect(evaluate('blockedCount', statusSemantics)).toBe(2);
+  });
+
+  test('should keep the default behaviour without a mapping', () => {
+    expect(evaluate('childCount')).toBe(4);
+    expect(evaluate('doneCount')).toBe(2);
+  });
+});
+
+describe('Descendant filters', () => {
+  const status = (name: string, key: string) => ({ name, statusCategory: { key, name } });
+  const issues: JiraIssue[] = [
+    { id: '1', key: 'PROJ-1', depth: 1, parentKey: 'EPIC-1', fields: { status: status('Done', 'done'), issuetype: { name: 'Story' }, story_points: 5 } },
+    { id: '2', key: 'PROJ-2', depth: 2, parentKey: 'PROJ-1', fields: { status: status('To Do', 'new'), issuetype: { name: 'Sub-task' }, story_points: 1 } },
+    { id: '3', key: 'PROJ-3', depth: 1, parentKey: 'EPIC-1', fields: { status: status('To Do', 'new'), issuetype: { name: 'Spike' }, story_points: 3 } },
+  ];
+  const filter = { issueTypes: { values: ['Sub-task', 'Spike'], exclude: true } };
+
+  test('should apply the filter to the context and the aggregates', () => {
+    expect(computeAggregate(issues, { type: 'custom', formula: 'childCount * 10 + COUNT()', filter }).value).toBe(11);
+    expect(computeAggregate(issues, { type: 'percentComplete', filter }).value).toBe(100);
+    expect(computeAggregate(issues, { type: 'percentComplete' }).value).toBe(33);
+  });
+});
+
+describe('Depth-scoped rollups', () => {
+  const status = (name: string, key: string) => ({ name, statusCategory: { key, name } });
+  // Two stories under the epic, three sub-tasks under them
+  const issues: JiraIssue[] = [
+    { id: '1', key: 'PROJ-1', depth: 1, parentKey: 'EPIC-1', fields: { status: status('Done', 'done'), story_points: 5 } },
+    { id: '2', key: 'PROJ-2', depth: 1, parentKey: 'EPIC-1', fields: { status: status('In Progress', 'indeterminate'), story_points: 3 } },
+    { id: '3', key: 'PROJ-3', depth: 2, parentKey: 'PROJ-1', fields: { status: status('Done', 'done'), story_points: 1 } },
+    { id: '4', key: 'PROJ-4', depth: 2, parentKey: 'PROJ-2', fields: { status: status('Done', 'done'), story_points: 2 } },
+    { id: '5', key: 'PROJ-5', depth: 2, parentKey: 'PROJ-2', fields: { status: status('To Do', 'new') } },
+  ];
+  const evaluate = (formula: string) =>
+    computeAggregate(issues, { type: 'custom', formula }).value;
+
+  test('should evaluate an expression over one level only', () => {
+    expect(evaluate('DEPTH(1, childCount)')).toBe(2);
+    expect(evaluate('DEPTH(2, doneCount)')).toBe(2);
+    expect(evaluate('DEPTH(1, percentComplete)')).toBe(50);
+    expect(evaluate('DEPTH(2, COUNT(status == "Done"))')).toBe(2);
+    expect(evaluate('doneCount - DEPTH(1, doneCount)')).toBe(2);
+  });
+
+  test('should return 0 for levels below the deepest descendant', () => {
+    expect(evaluate('DEPTH(3, childCount)')).toBe(0);
+  });
+
+  test('should attach per-level subtotals to the result', () => {
+    expect(computeAggregate(issues, { type: 'childCount' }).levels).toEqual([
+      { depth: 1, childCount: 2, doneCount: 1, totalStoryPoints: 8, donePoints: 5 },
+      { depth: 2, childCount: 3, doneCount: 2, totalStoryPoints: 3, donePoints: 3 },
+    ]);
+  });
+
+  test('should match the descendant-based result from level totals', () => {
+    const snapshots = issues.map((i) => snapshotIssue(i, ['story_points']));
+    const byDepth = sumTotalsByDepth(snapshots, issues.map((i) => i.depth), 'story_points');
+    const config: FieldConfig = { type: 'custom', formula: 'DEPTH(2, doneCount) * 10 + DEPTH(1, childCount)' };
+    const { updatedAt, ...fromTotals } = computeFromTotals(sumTotals(snapshots, 'story_points'), config, undefined, byDepth);
+    const { updatedAt: _, ...fromIssues } = computeAggregate(issues, config);
+    expect(fromTotals).toEqual(fromIssues);
+    expect(fromTotals.value).toBe(22);
+  });
+
+  test('should validate the level argument', () => {
+    expect(validateFormula('DEPTH(2, doneCount)').valid).toBe(true);
+    expect(validateFormula('DEPTH(0, doneCount)').errors[0]).toMatchObject({ code: 'invalidArgument', column: 7 });
+    expect(validateFormula('DEPTH(doneCount, 1)').errors[0]).toMatchObject({ code: 'invalidArgument' });
+    expect(validateFormula('SUM(DEPTH(1, doneCount))').errors[0]).toMatchObject({ code: 'invalidArgument' });
+    expect(validateFormula('DEPTH(1)').errors[0]).toMatchObject({ code: 'argumentCount' });
+  });
+});
+
+describe('Formula preview', () => {
+  const status = (name: string, key: string) => ({ name, statusCategory: { key, name } });
+  const issues: JiraIssue[] = [
+    { id: '1', key: 'PROJ-1', fields: { status: status('Done', 'done'), story_points: 5 } },
+    { id: '2', key: 'PROJ-2', fields: { status: status('To Do', 'new'), story_points: 3 } },
+  ];
+
+  test('should list context variables in order of first use', () => {
+    expect(extractContextVariables('IF(doneCount > 0, totalStoryPoints / doneCount, childcount)')).toEqual([
+      'doneCount',
+      'totalStoryPoints',
+      'childCount',
+    ]);
+    expect(extractContextVariables('SUM(storyPoints)')).toEqual([]);
+    expect(extractContextVariables('totalStoryPonts')).toEqual([]);
+  });
+
+  test('should report the variables a custom formula reads', () => {
+    const preview = previewAggregate(issues, { type: 'custom', formula: 'remainingPoints + doneCount' });
+    expect(preview.result.value).toBe(4);
+    expect(preview.variables).toEqual({ remainingPoints: 3, doneCount: 1 });
+    expect(preview.descendantCount).toBe(2);
+  });
+
+  test('should report the variables behind a preset formula', () => {
+    const preview = previewAggregate(issues, { type: 'storyPointAverage' });
+    expect(preview.result.label).toBe('4 SP avg');
+    expect(preview.variables).toEqual({ totalStoryPoints: 8, childCount: 2 });
+  });
+});
+
+describe('Rollup totals', () => {
+  const status = (name: string, key: string) => ({ name, statusCategory: { key, name } });
+  const issues: JiraIssue[] = [
+    { id: '1', key: 'PROJ-1', fields: { status: status('Done', 'done'), story_points: 5, timespent: 7200, timeoriginalestimate: 3600 } },
+    { id: '2', key: 'PROJ-2', fields: { status: status('Blocked', 'indeterminate'), story_points: 3, timeestimate: 1800 } },
+    { id: '3', key: 'PROJ-3', fields: { status: status('To Do', 'new'), story_points: 8 } },
+  ];
+  const totals = sumTotals(issues.map((i) => snapshotIssue(i, ['story_points'])), 'story_points');
+
+  test.each<FieldConfig>([
+    { type: 'storyPointSum' },
+    { type: 'percentCompleteByPoints' },
+    { type: 'statusProgress' },
+    { type: 'blockedCount', thresholds: [1, 2] },
+    { type: 'estimateAccuracy' },
+    { type: 'custom', formula: 'remainingPoints / childCount' },
+  ])('should match the descendant-based result for $type', (config) => {
+    const { updatedAt, ...fromTotals } = computeFromTotals(totals, config);
+    const { updatedAt: _, ...fromIssues } = computeAggregate(issues, config);
+    expect(fromTotals).toEqual(fromIssues);
+  });
+
+  test('should require descendants for formulas that aggregate over them', () => {
+    expect(canComputeFromTotals({ type: 'custom', formula: 'doneCount * 2' })).toBe(true);
+    expect(canComputeFromTotals({ type: 'custom', formula: 'COUNT(status == "Blocked")' })).toBe(false);
+    expect(canComputeFromTotals({ type: 'childCount' })).toBe(true);
+  });
+});
+
+describe('Compiled formulas', () => {
+  beforeEach(() => clearFormulaCache());
+
+  test('should reuse the compiled form for identical formula text', () => {
+    const compiled = compileFormula('totalStoryPoints / childCount');
+    expect(compileFormula('totalStoryPoints / childCount')).toBe(compiled);
+    expect(compileFormula('totalStoryPoints/childCount')).not.toBe(compiled);
+  });
+
+  test('should evaluate against different contexts', () => {
+    const compiled = compileFormula('remainingPoints * 2');
+    expect(compiled.evaluate(createMockContext({ remainingPoints: 4 }))).toBe(8);
+    expect(compiled.evaluate(createMockContext({ remainingPoints: 10 }))).toBe(20);
+  });
+
+  test('should describe what the formula depends on', () => {
+    expect(compileFormula('IF(blockedCount > 0, SUM(field("customfield_10050.value") * done), percentComplete)').dependencies).toEqual({
+      contextVariables: ['blockedCount', 'percentComplete'],
+      rowVariables: ['done'],
+      fields: ['customfield_10050'],
+      usesAggregates: true,
+    });
+    expect(compileFormula('doneCount').dependencies.usesAggregates).toBe(false);
+  });
+
+  test('should not cache invalid formulas', () => {
+    expect(() => compileFormula('totalStoryPonts')).toThrow(FormulaError);
+    expect(() => compileFormula('totalStoryPonts')).toThrow(FormulaError);
+  });
+});
+
+describe('Formula validation', () => {
+  test('should accept valid formulas', () => {
+    expect(validateFormula('IF(blockedCount > 0 AND percentComplete < 50, 3, 1)')).toEqual({ valid: true, errors: [] });
+    expect(validateFormula('SUM(field("customfield_10050") * (status != "Done"))').valid).toBe(true);
+  });
+
+  test('should report unknown identifiers with column and suggestion', () => {
+    const { valid, errors } = validateFormula('totalStoryPonts * 2');
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      {
+        code: 'unknownIdentifier',
+        column: 1,
+        message: "Column 1: Unknown identifier 'totalStoryPonts' — did you mean 'totalStoryPoints'?",
+      },
+    ]);
+  });
+
+  test('should report every unknown identifier', () => {
+    const { errors } = validateFormula('doneCont + 1 + remainingPonts');
+    expect(errors.map((e) => [e.code, e.column])).toEqual([
+      ['unknownIdentifier', 1],
+      ['unknownIdentifier', 16],
+    ]);
+  });
+
+  test('should report unexpected tokens', () => {
+    expect(validateFormula('5 + * 3').errors[0]).toMatchObject({ code: 'unexpectedToken', column: 5 });
+    expect(validateFormula('5 3').errors[0]).toMatchObject({ code: 'unexpectedToken', column: 3 });
+    expect(validateFormula('5 +').errors[0]).toMatchObject({ code: 'unexpectedEnd', column: 4 });
+    expect(validateFormula('5 # 3').errors[0]).toMatchObject({ code: 'invalidCharacter', column: 3 });
+    expect(validateFormula('COUNT(status == "Done)').errors[0]).toMatchObject({ code: 'unterminatedString', column: 17 });
+  });
+
+  test('should report wrong argument counts', () => {
+    expect(validateFormula('ROUND(1, 2)').errors[0]).toMatchObject({ code: 'argumentCount', column: 1 });
+    expect(validateFormula('IF(1)').errors[0].message).toBe('Column 1: IF() expects 2 to 3 arguments, got 1');
+    expect(validateFormula('1 + PERCENTILE(storyPoints)').errors[0]).toMatchObject({ code: 'argumentCount', column: 5 });
+  });
+
+  test('should restrict row variables to aggregates', () => {
+    expect(validateFormula('status == "Done"').errors[0]).toMatchObject({ code: 'rowVariableOutsideAggregate', column: 1 });
+    expect(validateFormula('COUNT(status == "Done")').valid).toBe(true);
+    expect(validateFormula('SUM(field(status))').errors[0]).toMatchObject({ code: 'invalidArgument', column: 11 });
+  });
+
+  test('should reject empty formulas', () => {
+    expect(validateFormula('  ').errors[0].code).toBe('emptyFormula');
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Unit tests for hierarchy.ts
+ *
+ * Walks a small fake Jira — native parents, a Parent Link field and
+ * "Implements" links — to check the child searches each traversal strategy
+ * builds, per-strategy depth limits, cycle protection and ancestor walks,
+ * then a wide tree for batching, concurrency and the API budget, and the
+ * search client's paging, retries and error classification.
+ */
+import {
+  createApiBudget,
+  createSearchClient,
+  getAncestorKeys,
+  getDescendants,
+  getParentKeys,
+  searchIssues,
+  SearchError,
+} from '../src/hierarchy';
+import type { TraversalStrategy } from '../src/types';
+
+interface FakeIssue {
+  parent?: string;
+  parentLink?: string;
+  implements?: string[];
+  /** Matched by parent searches, but its parent field isn't returned. */
+  hiddenParent?: boolean;
+}
+
+/** INIT-1 ⇐ EPIC-1 ← STORY-1 ← TASK-1; STORY-2 implements EPIC-1 and is implemented by STORY-1. */
+const mockIssues: Record<string, FakeIssue> = {
+  'INIT-1': {},
+  'EPIC-1': { parentLink: 'INIT-1' },
+  'STORY-1': { parent: 'EPIC-1', implements: ['STORY-2'] },
+  'STORY-2': { implements: ['EPIC-1'] },
+  'TASK-1': { parent: 'STORY-1' },
+};
+const STORIES = 120;
+
+// EPIC-W ← WIDE-1 … WIDE-120, each with one task
+mockIssues['EPIC-W'] = {};
+for (let i = 1; i <= STORIES; i++) {
+  mockIssues[`WIDE-${i}`] = { parent: 'EPIC-W' };
+  mockIssues[`WIDE-${i}-T`] = { parent: `WIDE-${i}` };
+}
+
+const mockSearches: string[] = [];
+const mockCalls = { inFlight: 0, maxInFlight: 0 };
+
+/** Outward "implements" links, and inward "is implemented by" links. */
+function mockLinks(key: string) {
+  const outward = (mockIssues[key].implements ?? []).map((target) => ({
+    type: { name: 'Implements' },
+    outwardIssue: { key: target },
+  }));
+  const inward = Object.entries(mockIssues)
+    .filter(([, issue]) => issue.implements?.includes(key))
+    .map(([source]) => ({ type: { name: 'Implements' }, inwardIssue: { key: source } }));
+  return [...outward, ...inward];
+}
+
+function mockFields(key: string) {
+  const issue = mockIssues[key];
+  return {
+    parent: issue.parent && !issue.hiddenParent ? { key: issue.parent } : undefined,
+    customfield_10018: issue.parentLink ? { data: { key: issue.parentLink } } : undefined,
+    issuelinks: mockLinks(key),
+  };
+}
+
+/** Matches the child clauses hierarchy.ts builds; the ORDER BY is ignored. */
+function mockMatch(jql: string): string[] {
+  return Object.keys(mockIssues).filter((key) => {
+    const issue = mockIssues[key];
+    return [...jql.matchAll(/(parent|cf\[10018\]|key) in \(([^)]*)\)/g)].some(([, field, keys]) => {
+      const value = field === 'parent' ? issue.parent : field === 'key' ? key : issue.parentLink;
+      return value !== undefined && keys.split(', ').includes(`"${value}"`);
+    });
+  });
+}
+
+function mockSearch(jql: string): string[] {
+  mockSearches.push(jql);
+  return mockMatch(jql);
+}
+
+/** Failures served to the next searches (containing `when`, if set) instead of results. */
+const mockFailures: Array<{ status?: number; retryAfter?: string; error?: Error; when?: string }> = [];
+
+jest.mock('@forge/api', () => ({
+  __esModule: true,
+  route: (strings: TemplateStringsArray, ...values: unknown[]) =>
+    strings.reduce((url, part, i) => url + part + (i < values.length ? String(values[i]) : ''), ''),
+  default: {
+    asApp: () => ({
+      requestJira: async (url: string, init: { body?: string }) => {
+        mockCalls.maxInFlight = Math.max(mockCalls.maxInFlight, ++mockCalls.inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        mockCalls.inFlight--;
+        if (url === '/rest/api/3/search/jql') {
+          const { jql, maxResults, nextPageToken } = JSON.parse(init.body!);
+          const failing = mockFailures.findIndex(({ when }) => !when || jql.includes(when));
+          if (failing >= 0) {
+            const [{ status, retryAfter, error }] = mockFailures.splice(failing, 1);
+            if (error) throw error;
+            const headers = { get: (name: string) => (name === 'Retry-After' ? retryAfter ?? null : null) };
+            return { ok: false, status, headers, json: async () => ({}) };
+          }
+          const keys = mockSearch(jql);
+          const startAt = Number(nextPageToken ?? 0);
+          const end = startAt + maxResults;
+          const body = {
+            issues: keys.slice(startAt, end).map((key) => ({ id: key, key, fields: mockFields(key) })),
+            nextPageToken: end < keys.length ? String(end) : undefined,
+          };
+          return { ok: true, status: 200, json: async () => body };
+        }
+        if (url === '/rest/api/3/search/approximate-count') {
+          const { jql } = JSON.parse(init.body!);
+          return { ok: true, status: 200, json: async () => ({ count: mockMatch(jql).length }) };
+        }
+        const key = url.match(/^\/rest\/api\/3\/issue\/([^?]+)/)![1];
+        return { ok: true, status: 200, json: async () => ({ key, fields: mockFields(key) }) };
+      },
+    }),
+  },
+}));
+
+const implemented: TraversalStrategy = { kind: 'issueLink', linkType: 'Implements', direction: 'inward' };
+const parentLink: TraversalStrategy = { kind: 'parentLink', field: 'customfield_10018' };
+
+describe('getDescendants', () => {
+  beforeEach(() => (mockSearches.length = 0));
+
+  test('should follow only the native parent by default', async () => {
+    const { issues } = await getDescendants('EPIC-1', createApiBudget());
+    expect(issues.map((i) => [i.key, i.depth, i.parentKey])).toEqual([
+      ['STORY-1', 1, 'EPIC-1'],
+      ['TASK-1', 2, 'STORY-1'],
+    ]);
+    expect(mockSearches[0]).toBe('parent in ("EPIC-1") ORDER BY created ASC');
+  });
+
+  test('should report children left below the depth limit', async () => {
+    const { issues, truncated } = await getDescendants('EPIC-1', createApiBudget(), 1);
+    expect(issues.map((i) => i.key)).toEqual(['STORY-1']);
+    expect(truncated).toEqual(['depth']);
+    expect((await getDescendants('EPIC-1', createApiBudget())).truncated).toEqual([]);
+  });
+
+  test('should OR one clause per strategy into a single search per parent', async () => {
+    const { issues } = await getDescendants('INIT-1', createApiBudget(), 3, 'story_points', [], 'status != Done', [
+      { kind: 'parent' },
+      parentLink,
+    ]);
+    expect(issues.map((i) => i.key)).toEqual(['EPIC-1', 'STORY-1', 'TASK-1']);
+    expect(mockSearches[0]).toBe(
+      '(parent in ("INIT-1") OR cf[10018] in ("INIT-1")) AND status != Done ORDER BY created ASC',
+    );
+  });
+
+  test('should search linked children by key and count each issue once', async () => {
+    const { issues } = await getDescendants('EPIC-1', createApiBudget(), 3, 'story_points', [], '', [
+      { kind: 'parent' },
+      implemented,
+    ]);
+    // STORY-2 implements EPIC-1; STORY-1 is reached as a child and again through STORY-2
+    expect(issues.map((i) => [i.key, i.depth, i.parentKey])).toEqual([
+      ['STORY-1', 1, 'EPIC-1'],
+      ['STORY-2', 1, 'EPIC-1'],
+      ['TASK-1', 2, 'STORY-1'],
+    ]);
+    expect(mockSearches[0]).toBe('(parent in ("EPIC-1") OR key in ("STORY-2")) ORDER BY created ASC');
+    expect(mockSearches[1]).toBe(
+      '(parent in ("STORY-1", "STORY-2") OR key in ("STORY-1")) ORDER BY created ASC',
+    );
+  });
+
+  test('should stop following a strategy below its depth limit', async () => {
+    const { issues } = await getDescendants('EPIC-1', createApiBudget(), 3, 'story_points', [], '', [
+      { kind: 'parent', maxDepth: 1 },
+      implemented,
+    ]);
+    // TASK-1 would be a native child at depth 2
+    expect(issues.map((i) => i.key)).toEqual(['STORY-1', 'STORY-2']);
+  });
+
+  test('should skip children whose parent cannot be told', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockIssues['STORY-3'] = { parent: 'EPIC-1', hiddenParent: true };
+    mockIssues['TASK-3'] = { parent: 'STORY-3' };
+    try {
+      const { issues } = await getDescendants('EPIC-1', createApiBudget());
+      expect(issues.map((i) => i.key)).toEqual(['STORY-1', 'TASK-1']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping STORY-3'));
+    } finally {
+      delete mockIssues['STORY-3'];
+      delete mockIssues['TASK-3'];
+      warn.mockRestore();
+    }
+  });
+
+  test('should not loop on link cycles', async () => {
+    mockIssues['EPIC-1'].implements = ['STORY-1'];
+    try {
+      const { issues } = await getDescendants('EPIC-1', createApiBudget(), 10, 'story_points', [], '', [
+        { kind: 'issueLink', linkType: 'Implements', direction: 'outward' },
+        implemented,
+      ]);
+      expect(issues.map((i) => i.key).sort()).toEqual(['STORY-1', 'STORY-2']);
+    } finally {
+      delete mockIssues['EPIC-1'].implements;
+    }
+  });
+});
+
+describe('Ancestor walks', () => {
+  test('should read every parent an issue has under the strategies', async () => {
+    expect(await getParentKeys('STORY-1', [{ kind: 'parent' }, implemented])).toEqual(['EPIC-1', 'STORY-2']);
+    expect(await getParentKeys('STORY-1', [{ kind: 'parent' }])).toEqual(['EPIC-1']);
+    expect(await getParentKeys('EPIC-1', [parentLink, implemented])).toEqual(['INIT-1']);
+  });
+
+  test('should walk up through every strategy within the depth', async () => {
+    const strategies = [{ kind: 'parent' } as const, parentLink, implemented];
+    expect(await getAncestorKeys('TASK-1', 3, strategies)).toEqual(['STORY-1', 'EPIC-1', 'STORY-2', 'INIT-1']);
+    expect(await getAncestorKeys('TASK-1', 2, strategies)).toEqual(['STORY-1', 'EPIC-1', 'STORY-2']);
+    expect(await getAncestorKeys('TASK-1', 3)).toEqual(['STORY-1', 'EPIC-1']);
+  });
+});
+
+describe('Batched traversal', () => {
+  beforeEach(() => {
+    mockSearches.length = 0;
+    mockCalls.maxInFlight = 0;
+  });
+
+  test('should search each level in chunks of parents, a few at a time', async () => {
+    const budget = createApiBudget();
+    const { issues } = await getDescendants('EPIC-W', budget, 3);
+    expect(issues).toHaveLength(2 * STORIES);
+    expect(issues[STORIES]).toMatchObject({ key: 'WIDE-1-T', depth: 2, parentKey: 'WIDE-1' });
+    expect(issues[2 * STORIES - 1]).toMatchObject({ key: `WIDE-${STORIES}-T`, parentKey: `WIDE-${STORIES}` });
+
+    // 2 pages of stories, then 50 + 50 + 20 parents per level for tasks and their (missing) children
+    expect(mockSearches).toHaveLength(8);
+    expect(mockSearches[2].match(/"WIDE-\d+"/g)).toHaveLength(50);
+    expect(mockSearches[4].match(/"WIDE-\d+"/g)).toHaveLength(20);
+    expect(mockCalls.maxInFlight).toBeGreaterThan(1);
+    expect(mockCalls.maxInFlight).toBeLessThanOrEqual(4);
+    expect(budget).toEqual({ remaining: 192, exhausted: false });
+  });
+
+  test('should stop when the API budget runs out', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const budget = createApiBudget(3);
+    const { issues } = await getDescendants('EPIC-W', budget, 3);
+    expect(mockSearches).toHaveLength(3);
+    expect(issues.filter((i) => i.depth === 1)).toHaveLength(STORIES);
+    expect(issues.filter((i) => i.depth === 2)).toHaveLength(50);
+    expect(budget).toEqual({ remaining: 0, exhausted: true });
+    // The two unsearched chunks are counted: 50 + 20 more tasks
+    const result = await getDescendants('EPIC-W', createApiBudget(3), 3);
+    expect(result.truncated).toContain('budget');
+    expect(result.expected).toBe(2 * STORIES);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('170 descendants found'));
+    warn.mockRestore();
+  });
+});
+
+describe('Search client', () => {
+  const sleep = jest.fn(async (_ms: number) => {});
+  const client = createSearchClient(sleep);
+
+  beforeEach(() => {
+    mockFailures.length = 0;
+    sleep.mockClear();
+  });
+
+  test('should page with the next page token until the last page', async () => {
+    const first = await searchIssues('parent in ("EPIC-W")', 'summary');
+    expect(first.issues).toHaveLength(100);
+    expect(first.nextPageToken).toBeDefined();
+    const last = await searchIssues('parent in ("EPIC-W")', 'summary', first.nextPageToken);
+    expect(last.issues.map((i) => i.key)).toContain(`WIDE-${STORIES}`);
+    expect(last.nextPageToken).toBeUndefined();
+  });
+
+  test('should wait out rate limits and transient failures', async () => {
+    mockFailures.push({ status: 429, retryAfter: '2' }, { status: 503 }, { error: new Error('socket hang up') });
+    const page = await client.search('parent in ("EPIC-1")', 'summary');
+    expect(page.issues.map((i) => i.key)).toEqual(['STORY-1']);
+    // Retry-After, then doubling backoff from the second retry on
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([2000, 1000, 2000]);
+  });
+
+  test('should not retry a search Jira rejects', async () => {
+    mockFailures.push({ status: 400 });
+    const error = await client.search('parent in (', 'summary').catch((err) => err);
+    expect(error).toBeInstanceOf(SearchError);
+    expect(error).toMatchObject({ status: 400, transient: false });
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  test('should give up after a few retries', async () => {
+    mockFailures.push(...Array.from({ length: 4 }, () => ({ status: 503 })));
+    await expect(client.search('parent in ("EPIC-1")', 'summary')).rejects.toMatchObject({
+      status: 503,
+      transient: true,
+    });
+    expect(sleep).toHaveBeenCalledTimes(3);
+  });
+
+  test('should give up once the retries have waited too long', async () => {
+    mockFailures.push(...Array.from({ length: 3 }, () => ({ status: 429, retryAfter: '5' })));
+    const error = await client.search('parent in ("EPIC-1")', 'summary').catch((err) => err);
+    expect(error).toMatchObject({ status: 429, transient: true });
+    expect(error.message).toContain('after 8000 ms of retries');
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([5000, 3000]);
+  });
+
+  test('should retry a long Retry-After once the allowed wait has passed', async () => {
+    mockFailures.push({ status: 429, retryAfter: '20' });
+    const page = await client.search('parent in ("EPIC-1")', 'summary');
+    expect(page.issues.map((i) => i.key)).toEqual(['STORY-1']);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([8000]);
+  });
+
+  test('should fail the traversal on a rejected search but keep results on a transient one', async () => {
+    mockFailures.push({ status: 400 });
+    await expect(getDescendants('EPIC-1', createApiBudget())).rejects.toBeInstanceOf(SearchError);
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    // The children are found; the grandchild search keeps failing
+    mockFailures.push(...Array.from({ length: 4 }, () => ({ status: 429, retryAfter: '0', when: 'STORY-1' })));
+    const { issues, truncated, lastError, expected } = await getDescendants('EPIC-1', createApiBudget());
+    expect(issues.map((i) => i.key)).toEqual(['STORY-1']);
+    expect(truncated).toEqual(['error']);
+    expect(lastError).toContain('429');
+    expect(expected).toBe(2);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('after retries'), expect.any(SearchError));
+    error.mockRestore();
+  });
+});
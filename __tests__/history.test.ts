@@ -0,0 +1,92 @@
+/**
+ * Unit tests for history.ts
+ *
+ * Covers when snapshots are appended, coalesced or skipped, and the
+ * retention limits.
+ */
+import { appendSnapshot, COALESCE_MS, DETAIL_DAYS, MAX_POINTS, prune, RETENTION_DAYS } from '../src/history';
+import type { HistoryPoint, IssueMetrics } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+/** Noon UTC, so a few hours either way stay on the same day. */
+const NOON = Date.parse('2024-03-01T12:00:00Z');
+
+function metrics(values: Record<string, number>): IssueMetrics {
+  const results: IssueMetrics['results'] = {};
+  for (const [id, value] of Object.entries(values)) {
+    results[id] = { value, label: String(value), color: 'green', updatedAt: '' };
+  }
+  return { results, updatedAt: '' };
+}
+
+const point = (at: number, values: Record<string, number>): HistoryPoint => ({
+  at: new Date(at).toISOString(),
+  values,
+});
+
+describe('appendSnapshot', () => {
+  test('should start a series with the first snapshot', () => {
+    expect(appendSnapshot([], metrics({ sp: 20 }), NOON)).toEqual([point(NOON, { sp: 20 })]);
+  });
+
+  test('should skip unchanged values on the same day', () => {
+    const points = [point(NOON, { sp: 20 })];
+    expect(appendSnapshot(points, metrics({ sp: 20 }), NOON + 4 * HOUR)).toBeNull();
+  });
+
+  test('should append unchanged values on a new day', () => {
+    const points = [point(NOON, { sp: 20 })];
+    expect(appendSnapshot(points, metrics({ sp: 20 }), NOON + DAY)).toHaveLength(2);
+  });
+
+  test('should append when a metric is added or removed', () => {
+    const points = [point(NOON, { sp: 20 })];
+    expect(appendSnapshot(points, metrics({ sp: 20, pct: 50 }), NOON + HOUR)).toHaveLength(2);
+    expect(appendSnapshot(points, metrics({}), NOON + HOUR)).toHaveLength(2);
+  });
+
+  test('should coalesce a burst of changes into its latest value', () => {
+    let points: HistoryPoint[] = [point(NOON - DAY, { sp: 20 })];
+    points = appendSnapshot(points, metrics({ sp: 18 }), NOON)!;
+    points = appendSnapshot(points, metrics({ sp: 15 }), NOON + COALESCE_MS / 3)!;
+    points = appendSnapshot(points, metrics({ sp: 13 }), NOON + (2 * COALESCE_MS) / 3)!;
+    expect(points.map((p) => p.values.sp)).toEqual([20, 13]);
+
+    points = appendSnapshot(points, metrics({ sp: 10 }), NOON + 2 * COALESCE_MS)!;
+    expect(points.map((p) => p.values.sp)).toEqual([20, 13, 10]);
+  });
+
+  test('should never replace the first point', () => {
+    let points = appendSnapshot([], metrics({ sp: 20 }), NOON)!;
+    points = appendSnapshot(points, metrics({ sp: 18 }), NOON + 1000)!;
+    expect(points.map((p) => p.values.sp)).toEqual([20, 18]);
+  });
+});
+
+describe('prune', () => {
+  test('should thin points older than the detail window to one per day', () => {
+    const old = NOON - (DETAIL_DAYS + 3) * DAY;
+    const recent = NOON - DAY;
+    const points = [
+      point(old, { sp: 1 }),
+      point(old + HOUR, { sp: 2 }),
+      point(old + 2 * HOUR, { sp: 3 }),
+      point(recent, { sp: 4 }),
+      point(recent + HOUR, { sp: 5 }),
+    ];
+    expect(prune(points, NOON).map((p) => p.values.sp)).toEqual([3, 4, 5]);
+  });
+
+  test('should drop points past the retention period', () => {
+    const points = [point(NOON - (RETENTION_DAYS + 1) * DAY, { sp: 1 }), point(NOON - DAY, { sp: 2 })];
+    expect(prune(points, NOON).map((p) => p.values.sp)).toEqual([2]);
+  });
+
+  test('should keep at most the newest MAX_POINTS points', () => {
+    const points = Array.from({ length: MAX_POINTS + 10 }, (_, i) => point(NOON - i * HOUR, { sp: i })).reverse();
+    const kept = prune(points, NOON);
+    expect(kept).toHaveLength(MAX_POINTS);
+    expect(kept[kept.length - 1].values.sp).toBe(0);
+  });
+});
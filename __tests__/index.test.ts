@@ -0,0 +1,129 @@
+/**
+ * Unit tests for index.ts
+ *
+ * Sends deletion, re-parenting and issue type change events through the issue trigger against
+ * an in-memory Forge Storage, with the hierarchy lookups mocked, and checks
+ * which parents are queued for a recompute.
+ */
+import { recomputeParentMetrics } from '../src/index';
+import { getAncestorKeys, getParentKey } from '../src/hierarchy';
+import type { IssueTriggerEvent } from '../src/types';
+
+const mockData = new Map<string, any>();
+const mockQueued: Array<{ issueKey?: string }> = [];
+
+jest.mock('@forge/api', () => ({
+  __esModule: true,
+  route: (strings: TemplateStringsArray) => strings.join(''),
+  storage: {
+    get: async (key: string) => mockData.get(key),
+    set: async (key: string, value: any) => void mockData.set(key, value),
+    delete: async (key: string) => void mockData.delete(key),
+  },
+  default: { asApp: () => ({ requestJira: async () => ({ ok: true, status: 204 }) }) },
+}));
+jest.mock('@forge/events', () => ({
+  Queue: class {
+    async push(payload: { issueKey?: string }) {
+      mockQueued.push(payload);
+    }
+  },
+}));
+jest.mock('@forge/resolver', () => ({
+  __esModule: true,
+  default: class {
+    define() {}
+    getDefinitions() {
+      return {};
+    }
+  },
+}));
+jest.mock('../src/hierarchy', () => ({
+  ...jest.requireActual('../src/hierarchy'),
+  getAncestorKeys: jest.fn(),
+  getParentKey: jest.fn(),
+}));
+
+const ancestors = getAncestorKeys as jest.MockedFunction<typeof getAncestorKeys>;
+const parentOf = getParentKey as jest.MockedFunction<typeof getParentKey>;
+
+// INIT-1 → EPIC-1, EPIC-2 → STORY-1
+const CHAINS: Record<string, string[]> = {
+  'STORY-1': ['EPIC-2', 'INIT-1'],
+  'EPIC-1': ['INIT-1'],
+  'EPIC-2': ['INIT-1'],
+  'INIT-1': [],
+};
+
+const queuedKeys = () => mockQueued.map((payload) => payload.issueKey).sort();
+
+function event(overrides: Partial<IssueTriggerEvent>): IssueTriggerEvent {
+  return {
+    eventType: 'avi:jira:updated:issue',
+    issue: { id: '10', key: 'STORY-1' },
+    atlassianId: 'user-1',
+    ...overrides,
+  };
+}
+
+describe('Issue trigger', () => {
+  beforeEach(() => {
+    mockData.clear();
+    mockQueued.length = 0;
+    ancestors.mockImplementation(async (key) => CHAINS[key] ?? []);
+    parentOf.mockResolvedValue('EPIC-2');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test('should recompute the old parent chain of a deleted issue and forget the issue', async () => {
+    mockData.set('parent-STORY-1', 'EPIC-1');
+    mockData.set('metrics-STORY-1', { results: {}, updatedAt: 'then' });
+    mockData.set('rollup-STORY-1', { parentKey: 'EPIC-1', metrics: {}, children: {} });
+
+    await recomputeParentMetrics(event({ eventType: 'avi:jira:deleted:issue' }));
+
+    expect(queuedKeys()).toEqual(['EPIC-1', 'INIT-1']);
+    expect(mockData.has('parent-STORY-1')).toBe(false);
+    expect(mockData.has('metrics-STORY-1')).toBe(false);
+    expect(mockData.has('rollup-STORY-1')).toBe(false);
+  });
+
+  test('should recompute the parent a moved issue left, read from the changelog', async () => {
+    await recomputeParentMetrics(
+      event({
+        changelog: {
+          items: [{ field: 'parent', fieldId: 'parent', fromString: 'EPIC-1', toString: 'EPIC-2' }],
+        },
+      }),
+    );
+    expect(queuedKeys()).toEqual(['EPIC-1', 'EPIC-2', 'INIT-1', 'STORY-1']);
+  });
+
+  test('should recompute the parent a moved issue left, read from the index', async () => {
+    // Recomputed under EPIC-1 before the move; this event's changelog doesn't say where from
+    mockData.set('parent-STORY-1', 'EPIC-1');
+    await recomputeParentMetrics(event({ eventType: 'avi:jira:created:issue' }));
+    expect(queuedKeys()).toEqual(['EPIC-1', 'EPIC-2', 'INIT-1', 'STORY-1']);
+  });
+
+  test('should only recompute the current chain of an issue that stayed put', async () => {
+    mockData.set('parent-STORY-1', 'EPIC-2');
+    await recomputeParentMetrics(event({ eventType: 'avi:jira:created:issue' }));
+    expect(queuedKeys()).toEqual(['EPIC-2', 'INIT-1', 'STORY-1']);
+  });
+
+  test('should recompute an issue whose type changed, even without a parent', async () => {
+    parentOf.mockResolvedValue(null);
+    await recomputeParentMetrics(
+      event({
+        issue: { id: '2', key: 'EPIC-2' },
+        changelog: {
+          items: [{ field: 'issuetype', fieldId: 'issuetype', fromString: 'Epic', toString: 'Initiative' }],
+        },
+      }),
+    );
+    expect(queuedKeys()).toEqual(['EPIC-2']);
+  });
+});
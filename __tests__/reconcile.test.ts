@@ -0,0 +1,170 @@
+/**
+ * Unit tests for reconcile.ts
+ *
+ * Runs reconciliation passes against an in-memory Forge Storage, with the
+ * recompute and JQL search mocked, to check batching, resuming and the
+ * report.
+ */
+import { getReconciliationStatus, runReconciliation } from '../src/reconcile';
+import { clearMetrics, rebuildRollup } from '../src/rollup';
+import { searchIssues } from '../src/hierarchy';
+
+const mockData = new Map<string, any>();
+
+jest.mock('@forge/api', () => ({
+  startsWith: (prefix: string) => prefix,
+  storage: {
+    get: async (key: string) => mockData.get(key),
+    set: async (key: string, value: any) => void mockData.set(key, value),
+    delete: async (key: string) => void mockData.delete(key),
+    query: () => {
+      let prefix = '';
+      let limit = 10;
+      let cursor = 0;
+      const builder = {
+        where: (_field: string, p: string) => ((prefix = p), builder),
+        limit: (n: number) => ((limit = n), builder),
+        cursor: (c: string) => ((cursor = Number(c)), builder),
+        getMany: async () => {
+          const keys = [...mockData.keys()].filter((k) => k.startsWith(prefix)).sort();
+          const results = keys.slice(cursor, cursor + limit).map((key) => ({ key, value: mockData.get(key) }));
+          const next = cursor + limit;
+          return { results, nextCursor: next < keys.length ? String(next) : undefined };
+        },
+      };
+      return builder;
+    },
+  },
+}));
+jest.mock('../src/rollup', () => ({ rebuildRollup: jest.fn(), clearMetrics: jest.fn() }));
+jest.mock('../src/hierarchy', () => ({
+  searchIssues: jest.fn(),
+  createApiBudget: () => ({ remaining: 200, exhausted: false }),
+  cutShortByBudget: jest.requireActual('../src/hierarchy').cutShortByBudget,
+}));
+
+const rebuild = rebuildRollup as jest.MockedFunction<typeof rebuildRollup>;
+const search = searchIssues as jest.MockedFunction<typeof searchIssues>;
+
+const metrics = (value: number) => ({
+  results: { sp: { value, label: `${value} SP`, color: 'green' as const, updatedAt: 'then' } },
+  updatedAt: 'then',
+});
+
+describe('Reconciliation', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  beforeEach(() => {
+    mockData.clear();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    search.mockResolvedValue({ issues: [] });
+  });
+
+  test('should report changed, unchanged and failed issues', async () => {
+    mockData.set('metrics-EPIC-1', metrics(5));
+    mockData.set('metrics-EPIC-2', metrics(8));
+    mockData.set('metrics-EPIC-3', metrics(3));
+    rebuild.mockImplementation(async (key) => {
+      if (key === 'EPIC-1') return { ...metrics(5), updatedAt: 'now' };
+      if (key === 'EPIC-2') return metrics(13);
+      throw new Error('Issue does not exist');
+    });
+
+    await runReconciliation();
+
+    const { current, last } = await getReconciliationStatus();
+    expect(current).toBeNull();
+    expect(last).toMatchObject({
+      changed: 1,
+      unchanged: 1,
+      failed: 1,
+      failures: [{ issueKey: 'EPIC-3', error: 'Issue does not exist' }],
+    });
+    expect(last!.completedAt).toBeDefined();
+  });
+
+  test('should resume from the stored cursor when the time budget runs out', async () => {
+    for (let i = 0; i < 50; i++) mockData.set(`metrics-EPIC-${String(i).padStart(2, '0')}`, metrics(i));
+    const clock = jest.spyOn(Date, 'now');
+    let t = 0;
+    clock.mockImplementation(() => t);
+    rebuild.mockImplementation(async (key) => {
+      t += 1000; // each recompute takes a second
+      return metrics(Number(key.split('-')[1]));
+    });
+
+    await runReconciliation();
+    const partial = await getReconciliationStatus();
+    expect(partial.current).not.toBeNull();
+    // Stopped inside the first batch, with the issues done so far checkpointed
+    expect(rebuild).toHaveBeenCalledTimes(15);
+    expect(mockData.get('reconcile-run')).toMatchObject({ phase: 'storage', position: 15 });
+    expect(mockData.get('reconcile-run').cursor).toBeUndefined();
+
+    while ((await getReconciliationStatus()).current) await runReconciliation();
+    const keys = rebuild.mock.calls.map(([key]) => key);
+    expect(new Set(keys).size).toBe(50);
+    expect(keys).toHaveLength(50);
+    expect((await getReconciliationStatus()).last).toMatchObject({ unchanged: 50 });
+  });
+
+  test('should share one API budget per invocation and stop once it is used up', async () => {
+    for (let i = 0; i < 10; i++) mockData.set(`metrics-EPIC-${i}`, metrics(i));
+    rebuild.mockImplementation(async (key, budget) => {
+      budget.remaining -= 10;
+      // Runs out partway through EPIC-2 the first time
+      if (key === 'EPIC-2' && rebuild.mock.calls.length === 3) {
+        Object.assign(budget, { remaining: 0, exhausted: true });
+      }
+      return metrics(Number(key.split('-')[1]));
+    });
+
+    await runReconciliation();
+    expect(rebuild).toHaveBeenCalledTimes(3);
+    expect(new Set(rebuild.mock.calls.map(([, budget]) => budget)).size).toBe(1);
+    // EPIC-2 may be partial, so it is neither counted nor checkpointed
+    expect(mockData.get('reconcile-run')).toMatchObject({ position: 2, unchanged: 2 });
+
+    await runReconciliation();
+    expect(rebuild).toHaveBeenCalledTimes(11);
+    expect(rebuild.mock.calls[3][0]).toBe('EPIC-2');
+    expect(rebuild.mock.calls[3][1]).not.toBe(rebuild.mock.calls[0][1]);
+    expect((await getReconciliationStatus()).last).toMatchObject({ unchanged: 10 });
+  });
+
+  test('should count an issue that alone used up a whole budget', async () => {
+    for (let i = 0; i < 3; i++) mockData.set(`metrics-EPIC-${i}`, metrics(i));
+    rebuild.mockImplementation(async (key, budget) => {
+      if (key === 'EPIC-0') Object.assign(budget, { remaining: 0, exhausted: true });
+      return metrics(Number(key.split('-')[1]));
+    });
+
+    await runReconciliation();
+    expect(mockData.get('reconcile-run')).toMatchObject({ position: 1, unchanged: 1 });
+  });
+
+  test('should clear stale properties on issues without stored results', async () => {
+    mockData.set('metrics-EPIC-1', metrics(5));
+    rebuild.mockImplementation(async (key) => (key === 'EPIC-1' ? metrics(5) : null));
+    search.mockResolvedValue({
+      issues: [
+        { id: '1', key: 'EPIC-1', fields: {} },
+        { id: '9', key: 'EPIC-9', fields: {} },
+      ],
+    });
+
+    await runReconciliation();
+
+    expect(rebuild).toHaveBeenCalledTimes(2);
+    expect(clearMetrics).toHaveBeenCalledWith('EPIC-9', true);
+    expect((await getReconciliationStatus()).last).toMatchObject({ changed: 1, unchanged: 1 });
+  });
+
+  test('should wait a day before starting the next pass', async () => {
+    await runReconciliation();
+    mockData.set('metrics-EPIC-1', metrics(5));
+    await runReconciliation();
+    expect(rebuild).not.toHaveBeenCalled();
+  });
+});
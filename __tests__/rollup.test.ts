@@ -0,0 +1,409 @@
+/**
+ * Unit tests for rollup.ts
+ *
+ * Tests how changelog items turn a stored child snapshot into its new
+ * contribution, how incremental updates shift the stored totals up the
+ * ancestor chain, and how full recomputes record the completeness of their
+ * results and request the fields their formulas read, against an in-memory
+ * Forge Storage.
+ */
+import { applyChangelog, applyIncrementalUpdate, rebuildRollup } from '../src/rollup';
+import { createApiBudget, getDescendants, getIssueHeader, getParentKey } from '../src/hierarchy';
+import type {
+  IssueMetrics,
+  IssueSnapshot,
+  IssueTriggerEvent,
+  JiraIssue,
+  MetricDefinition,
+  RollupState,
+} from '../src/types';
+
+const mockData = new Map<string, any>();
+const mockRequestJira = jest.fn(async (_url: string, _init?: { body?: string }): Promise<any> => ({
+  ok: true,
+  status: 204,
+}));
+
+jest.mock('@forge/api', () => ({
+  __esModule: true,
+  route: (strings: TemplateStringsArray, ...values: unknown[]) =>
+    strings.reduce((url, part, i) => url + part + (i < values.length ? String(values[i]) : ''), ''),
+  storage: {
+    get: async (key: string) => mockData.get(key),
+    set: async (key: string, value: any) => void mockData.set(key, JSON.parse(JSON.stringify(value))),
+    delete: async (key: string) => void mockData.delete(key),
+  },
+  default: { asApp: () => ({ requestJira: (url: string, init?: any) => mockRequestJira(url, init) }) },
+}));
+jest.mock('../src/hierarchy', () => ({
+  ...jest.requireActual('../src/hierarchy'),
+  getDescendants: jest.fn(),
+  getIssueHeader: jest.fn(),
+  getParentKey: jest.fn(),
+}));
+
+const descendants = getDescendants as jest.MockedFunction<typeof getDescendants>;
+const header = getIssueHeader as jest.MockedFunction<typeof getIssueHeader>;
+const parentOf = getParentKey as jest.MockedFunction<typeof getParentKey>;
+
+describe('Changelog deltas', () => {
+  const snapshot: IssueSnapshot = {
+    key: 'PROJ-2',
+    status: 'To Do',
+    statusCategory: 'new',
+    labels: ['backend'],
+    flagged: false,
+    points: { customfield_10016: 3 },
+    originalEstimate: 7200,
+    timeSpent: 0,
+    remainingEstimate: 7200,
+  };
+  const categories = { 'To Do': 'new', 'In Progress': 'indeterminate', Done: 'done' };
+
+  test('should move the snapshot to the new status and category', () => {
+    const next = applyChangelog(
+      snapshot,
+      [{ field: 'status', fromString: 'To Do', toString: 'Done' }],
+      categories,
+    );
+    expect(next).toMatchObject({ status: 'Done', statusCategory: 'done' });
+    expect(snapshot.status).toBe('To Do');
+  });
+
+  test('should update story points by field id and time tracking in seconds', () => {
+    const next = applyChangelog(
+      snapshot,
+      [
+        { field: 'Story Points', fieldId: 'customfield_10016', fromString: '3', toString: '8' },
+        { field: 'timespent', fieldId: 'timespent', from: null, fromString: null, to: '3600', toString: '3600' },
+        { field: 'timeestimate', fieldId: 'timeestimate', from: '7200', fromString: '7200', to: '3600', toString: '3600' },
+      ],
+      categories,
+    );
+    expect(next).toMatchObject({
+      points: { customfield_10016: 8 },
+      timeSpent: 3600,
+      remainingEstimate: 3600,
+    });
+  });
+
+  test('should treat cleared story points as zero', () => {
+    const next = applyChangelog(
+      snapshot,
+      [{ field: 'Story Points', fieldId: 'customfield_10016', fromString: '3', toString: null }],
+      categories,
+    );
+    expect(next!.points.customfield_10016).toBe(0);
+  });
+
+  test('should track labels and the flag field', () => {
+    const next = applyChangelog(
+      snapshot,
+      [
+        { field: 'labels', fieldId: 'labels', fromString: 'backend', toString: 'backend waiting-on-vendor' },
+        { field: 'Flagged', fieldId: 'customfield_10021', fromString: null, toString: 'Impediment' },
+      ],
+      categories,
+      'customfield_10021',
+    );
+    expect(next).toMatchObject({ labels: ['backend', 'waiting-on-vendor'], flagged: true });
+
+    const unflagged = applyChangelog(
+      next!,
+      [{ field: 'Flagged', fieldId: 'customfield_10021', fromString: 'Impediment', toString: '' }],
+      categories,
+      'customfield_10021',
+    );
+    expect(unflagged!.flagged).toBe(false);
+  });
+
+  test('should ignore fields that do not feed the totals', () => {
+    const next = applyChangelog(
+      snapshot,
+      [{ field: 'summary', fieldId: 'summary', fromString: 'Old', toString: 'New' }],
+      categories,
+    );
+    expect(next).toEqual(snapshot);
+  });
+
+  test('should refuse moves and unknown statuses', () => {
+    expect(
+      applyChangelog(snapshot, [{ field: 'IssueParentAssociation', fromString: 'PROJ-1', toString: 'PROJ-9' }], categories),
+    ).toBeNull();
+    expect(
+      applyChangelog(snapshot, [{ field: 'status', fromString: 'To Do', toString: 'In Review' }], categories),
+    ).toBeNull();
+  });
+});
+
+describe('Result completeness', () => {
+  const story: JiraIssue = {
+    id: '2',
+    key: 'PROJ-2',
+    depth: 1,
+    parentKey: 'EPIC-1',
+    fields: { status: { name: 'Done', statusCategory: { key: 'done', name: 'Done' } }, story_points: 5 },
+  };
+  const stored = (): IssueMetrics => mockData.get('metrics-EPIC-1');
+
+  beforeEach(() => {
+    mockData.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    header.mockResolvedValue({ scope: {}, parentKey: null, dueDate: null });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test('should record how many descendants were read and what was cut off', async () => {
+    descendants.mockResolvedValue({ issues: [story], truncated: ['budget'], expected: 4 });
+    await rebuildRollup('EPIC-1', createApiBudget());
+
+    const [result] = Object.values(stored().results);
+    expect(result.completeness).toEqual({
+      scanned: 1,
+      expected: 4,
+      truncated: ['budget'],
+      computedFrom: expect.any(String),
+    });
+  });
+
+  test('should keep the stored value but flag it stale when a recompute fails', async () => {
+    descendants.mockResolvedValue({ issues: [story], truncated: [] });
+    await rebuildRollup('EPIC-1', createApiBudget());
+    const [before] = Object.values(stored().results);
+
+    descendants.mockRejectedValue(new Error('JQL search failed (400)'));
+    await expect(rebuildRollup('EPIC-1', createApiBudget())).rejects.toThrow('400');
+
+    const [after] = Object.values(stored().results);
+    expect(after.value).toBe(before.value);
+    expect(after.completeness).toMatchObject({ stale: true, lastError: 'JQL search failed (400)' });
+    const state = mockData.get('rollup-EPIC-1');
+    expect(Object.values<any>(state.metrics)[0].completeness.stale).toBe(true);
+  });
+
+  test('should not clear stored results when every search failed', async () => {
+    descendants.mockResolvedValue({ issues: [story], truncated: [] });
+    await rebuildRollup('EPIC-1', createApiBudget());
+
+    descendants.mockResolvedValue({ issues: [], truncated: ['error'], lastError: 'JQL search failed (503)' });
+    await expect(rebuildRollup('EPIC-1', createApiBudget())).rejects.toThrow('503');
+    expect(Object.values(stored().results)[0].completeness?.stale).toBe(true);
+  });
+
+  test('should not clear stored results when the budget ran out before the first search', async () => {
+    // Like getDescendants: with no calls left nothing is read
+    descendants.mockImplementation(async (_key, budget) =>
+      budget.remaining > 0 ? { issues: [story], truncated: [] } : { issues: [], truncated: ['budget'] },
+    );
+    await rebuildRollup('EPIC-1', createApiBudget());
+
+    // The previous issue of this invocation took exactly the last call
+    const budget = createApiBudget(0);
+    mockRequestJira.mockClear();
+
+    await expect(rebuildRollup('EPIC-1', budget)).rejects.toThrow('budget');
+    expect(Object.values(stored().results)[0].completeness?.stale).toBe(true);
+    expect(mockData.get('parent-PROJ-2')).toBe('EPIC-1');
+    expect(mockRequestJira).not.toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ method: 'DELETE' }));
+  });
+});
+
+describe('Formula fields', () => {
+  const status = { name: 'To Do', statusCategory: { key: 'new', name: 'To Do' } };
+  const searchBodies = () =>
+    mockRequestJira.mock.calls
+      .filter(([url]) => url === '/rest/api/3/search/jql')
+      .map(([, init]) => JSON.parse(init!.body!));
+
+  beforeEach(() => {
+    mockData.clear();
+    mockRequestJira.mockClear();
+    header.mockResolvedValue({ scope: {}, parentKey: null, dueDate: null });
+    descendants.mockImplementation(jest.requireActual('../src/hierarchy').getDescendants);
+    mockRequestJira.mockImplementation(async (url, init) => {
+      if (url !== '/rest/api/3/search/jql') return { ok: true, status: 204 };
+      const { jql } = JSON.parse(init!.body!);
+      const issues = jql.includes('"EPIC-1"')
+        ? [
+            { id: '2', key: 'PROJ-2', fields: { status, labels: ['backend'], parent: { key: 'EPIC-1' } } },
+            { id: '3', key: 'PROJ-3', fields: { status, labels: ['frontend'], parent: { key: 'EPIC-1' } } },
+          ]
+        : [];
+      return { ok: true, status: 200, json: async () => ({ issues }) };
+    });
+  });
+
+  afterEach(() => mockRequestJira.mockReset());
+
+  test('should request the labels a formula counts by', async () => {
+    mockData.set('metric-definitions', [
+      { id: 'backend', name: 'Backend', type: 'custom', formula: 'COUNT(labels == "backend")' },
+    ]);
+    const metrics = await rebuildRollup('EPIC-1', createApiBudget());
+
+    expect(searchBodies()[0].fields).toContain('labels');
+    expect(metrics!.results.backend.value).toBe(1);
+  });
+});
+
+describe('Incremental updates', () => {
+  const status = (name: string, key: string) => ({ name, statusCategory: { key, name } });
+  const issue = (key: string, depth: number, parentKey: string, points: number, done = false): JiraIssue => ({
+    id: key,
+    key,
+    depth,
+    parentKey,
+    fields: {
+      status: done ? status('Done', 'done') : status('To Do', 'new'),
+      issuetype: { name: 'Story' },
+      story_points: points,
+    },
+  });
+  // INIT-1 → EPIC-1 → STORY-1 (3 SP), STORY-2 (5 SP, done)
+  const tree: Record<string, JiraIssue[]> = {
+    'EPIC-1': [issue('STORY-1', 1, 'EPIC-1', 3), issue('STORY-2', 1, 'EPIC-1', 5, true)],
+    'INIT-1': [
+      issue('EPIC-1', 1, 'INIT-1', 0),
+      issue('STORY-1', 2, 'EPIC-1', 3),
+      issue('STORY-2', 2, 'EPIC-1', 5, true),
+    ],
+  };
+  const deep: MetricDefinition = { id: 'deep', name: 'Deep', type: 'storyPointSum', maxDepth: 2 };
+  const shallow: MetricDefinition = { id: 'shallow', name: 'Shallow', type: 'storyPointSum', maxDepth: 1 };
+  const pointsEdit: IssueTriggerEvent = {
+    atlassianId: 'user-1',
+    issue: { id: 'STORY-1', key: 'STORY-1' },
+    changelog: { items: [{ field: 'Story Points', fieldId: 'story_points', fromString: '3', toString: '8' }] },
+  };
+  const rollup = (key: string): RollupState => mockData.get(`rollup-${key}`);
+  const value = (key: string, metricId: string) =>
+    (mockData.get(`metrics-${key}`) as IssueMetrics).results[metricId].value;
+  const recomputed = () => descendants.mock.calls.map(([key]) => key);
+
+  /** Stores definitions and fully recomputes the chain, as the trigger would have. */
+  async function setUp(definitions: MetricDefinition[]) {
+    mockData.set('metric-definitions', definitions);
+    await rebuildRollup('EPIC-1', createApiBudget());
+    await rebuildRollup('INIT-1', createApiBudget());
+    descendants.mockClear();
+    mockRequestJira.mockClear();
+  }
+
+  beforeEach(() => {
+    mockData.clear();
+    parentOf.mockResolvedValue('EPIC-1');
+    header.mockImplementation(async (key) => ({
+      scope: {},
+      parentKey: key === 'EPIC-1' ? 'INIT-1' : null,
+      dueDate: null,
+    }));
+    descendants.mockImplementation(async (key, _budget, maxDepth = 2) => ({
+      issues: (tree[key] ?? []).filter((i) => i.depth! <= maxDepth),
+      truncated: [],
+    }));
+  });
+
+  afterEach(() => mockRequestJira.mockReset());
+
+  test('should shift the parent and the grandparent by the delta at their distance', async () => {
+    await setUp([deep]);
+    expect(await applyIncrementalUpdate(pointsEdit)).toEqual([]);
+
+    expect(recomputed()).toEqual([]);
+    expect(value('EPIC-1', 'deep')).toBe(13);
+    expect(value('INIT-1', 'deep')).toBe(13);
+    const grandparent = rollup('INIT-1').metrics.deep;
+    expect(grandparent.byDepth!.map((level) => level.totalStoryPoints)).toEqual([0, 13]);
+    expect(rollup('EPIC-1').metrics.deep.byDepth!.map((level) => level.totalStoryPoints)).toEqual([13]);
+    expect(rollup('EPIC-1').children['STORY-1'].points.story_points).toBe(8);
+  });
+
+  test('should leave totals of metrics too shallow to include the issue unchanged', async () => {
+    await setUp([deep, shallow]);
+    await applyIncrementalUpdate(pointsEdit);
+
+    expect(value('EPIC-1', 'shallow')).toBe(13);
+    expect(value('INIT-1', 'shallow')).toBe(0);
+    expect(rollup('INIT-1').metrics.shallow.byDepth!.map((level) => level.totalStoryPoints)).toEqual([0]);
+  });
+
+  test('should rewrite the stored results and the issue property', async () => {
+    await setUp([deep]);
+    await applyIncrementalUpdate(pointsEdit);
+
+    const put = mockRequestJira.mock.calls.find(([url]) => url === '/rest/api/3/issue/EPIC-1/properties/isurollup');
+    expect(JSON.parse(put![1]!.body!).results.deep.value).toBe(13);
+    expect(mockData.get('metrics-EPIC-1').updatedAt).toBe(rollup('EPIC-1').updatedAt);
+  });
+
+  test('should queue a recompute of ancestors whose totals were built with other settings', async () => {
+    await setUp([deep]);
+    mockData.set('metric-definitions', [{ ...deep, storyPointsField: 'customfield_10016' }]);
+    expect(await applyIncrementalUpdate(pointsEdit)).toEqual(['EPIC-1', 'INIT-1']);
+    expect(recomputed()).toEqual([]);
+  });
+
+  test('should queue a recompute of ancestors with a filtered metric', async () => {
+    await setUp([{ ...deep, filter: { issueTypes: { values: ['Story'] } } }]);
+    expect(await applyIncrementalUpdate(pointsEdit)).toEqual(['EPIC-1', 'INIT-1']);
+    expect(recomputed()).toEqual([]);
+  });
+
+  test('should queue a recompute of ancestors with a formula over individual descendants', async () => {
+    await setUp([{ id: 'big', name: 'Big', type: 'custom', formula: 'COUNT(storyPoints > 5)', maxDepth: 2 }]);
+    expect(await applyIncrementalUpdate(pointsEdit)).toEqual(['EPIC-1', 'INIT-1']);
+    expect(recomputed()).toEqual([]);
+  });
+
+  test('should refuse the delta without a stored snapshot of the issue', async () => {
+    await setUp([deep]);
+    const state = rollup('EPIC-1');
+    delete state.children['STORY-1'];
+    mockData.set('rollup-EPIC-1', state);
+
+    expect(await applyIncrementalUpdate(pointsEdit)).toBeNull();
+    expect(recomputed()).toEqual([]);
+    expect(value('EPIC-1', 'deep')).toBe(8);
+  });
+
+  test('should queue a recompute of an ancestor without stored totals', async () => {
+    await setUp([deep]);
+    mockData.delete('rollup-INIT-1');
+
+    expect(await applyIncrementalUpdate(pointsEdit)).toEqual(['INIT-1']);
+    expect(value('EPIC-1', 'deep')).toBe(13);
+    expect(value('INIT-1', 'deep')).toBe(8);
+  });
+});
+
+describe('Parent index', () => {
+  const story = (key: string, parentKey: string): JiraIssue => ({
+    id: key,
+    key,
+    depth: 1,
+    parentKey,
+    fields: { status: { name: 'To Do', statusCategory: { key: 'new', name: 'To Do' } }, story_points: 1 },
+  });
+  const index = () =>
+    Object.fromEntries([...mockData].filter(([key]) => key.startsWith('parent-')).map(([key, value]) => [key, value]));
+
+  beforeEach(() => {
+    mockData.clear();
+    header.mockResolvedValue({ scope: {}, parentKey: null, dueDate: null });
+  });
+
+  test('should point children at their parent and drop those that left', async () => {
+    descendants.mockResolvedValue({ issues: [story('STORY-1', 'EPIC-1'), story('STORY-2', 'EPIC-1')], truncated: [] });
+    await rebuildRollup('EPIC-1', createApiBudget());
+    expect(index()).toEqual({ 'parent-STORY-1': 'EPIC-1', 'parent-STORY-2': 'EPIC-1' });
+
+    // STORY-2 moved to EPIC-2, which was recomputed first; STORY-1 was unlinked
+    descendants.mockResolvedValue({ issues: [story('STORY-2', 'EPIC-2')], truncated: [] });
+    await rebuildRollup('EPIC-2', createApiBudget());
+    descendants.mockResolvedValue({ issues: [story('STORY-3', 'EPIC-1')], truncated: [] });
+    await rebuildRollup('EPIC-1', createApiBudget());
+
+    expect(index()).toEqual({ 'parent-STORY-2': 'EPIC-2', 'parent-STORY-3': 'EPIC-1' });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for statuses.ts
+ *
+ * Classifies issues under the default status mapping and a customised one.
+ */
+import { classifyStatus, isBlocked, semanticsFingerprint } from '../src/statuses';
+import type { StatusSemantics } from '../src/types';
+import type { StatusFacts } from '../src/statuses';
+
+const facts = (status: string, statusCategory: string, extra: Partial<StatusFacts> = {}): StatusFacts => ({
+  status,
+  statusCategory,
+  labels: [],
+  flagged: false,
+  ...extra,
+});
+
+const custom: StatusSemantics = {
+  doneCategories: ['done'],
+  doneStatuses: ['Ready for Release'],
+  excludedStatuses: ["Won't Do"],
+  blockedStatuses: ['On Hold', 'Impeded'],
+  blockedLabels: ['waiting-on-vendor'],
+  flagField: 'customfield_10021',
+};
+
+describe('classifyStatus', () => {
+  test('should follow the status categories by default', () => {
+    expect(classifyStatus(facts('Done', 'done'))).toBe('done');
+    expect(classifyStatus(facts('In Progress', 'indeterminate'))).toBe('inProgress');
+    expect(classifyStatus(facts('To Do', 'new'))).toBe('todo');
+    expect(classifyStatus(facts('Mystery', ''))).toBe('todo');
+  });
+
+  test('should count listed statuses as done and leave excluded ones out', () => {
+    expect(classifyStatus(facts('ready for release', 'indeterminate'), custom)).toBe('done');
+    expect(classifyStatus(facts("Won't Do", 'done'), custom)).toBeNull();
+  });
+});
+
+describe('isBlocked', () => {
+  test('should only match a status named Blocked by default', () => {
+    expect(isBlocked(facts('Blocked', 'indeterminate'))).toBe(true);
+    expect(isBlocked(facts('On Hold', 'indeterminate'))).toBe(false);
+    expect(isBlocked(facts('To Do', 'new', { flagged: true }))).toBe(false);
+  });
+
+  test('should match configured statuses, labels and the flag', () => {
+    expect(isBlocked(facts('Impeded', 'indeterminate'), custom)).toBe(true);
+    expect(isBlocked(facts('To Do', 'new', { labels: ['Waiting-On-Vendor'] }), custom)).toBe(true);
+    expect(isBlocked(facts('In Progress', 'indeterminate', { flagged: true }), custom)).toBe(true);
+  });
+
+  test('should never count done or excluded issues as blocked', () => {
+    expect(isBlocked(facts('Done', 'done', { flagged: true }), custom)).toBe(false);
+    expect(isBlocked(facts("Won't Do", 'done', { labels: ['waiting-on-vendor'] }), custom)).toBe(false);
+  });
+});
+
+describe('semanticsFingerprint', () => {
+  test('should ignore order and case', () => {
+    expect(semanticsFingerprint({ ...custom, blockedStatuses: ['impeded', 'On Hold'] })).toBe(
+      semanticsFingerprint(custom),
+    );
+    expect(semanticsFingerprint(custom)).not.toBe(semanticsFingerprint());
+  });
+});
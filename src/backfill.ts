@@ -0,0 +1,164 @@
+/**
+ * backfill.ts — Bulk recompute of the issues matching a JQL query.
+ *
+ * Started from the admin page, e.g. after installing the app or changing a
+ * formula. The job lives under `backfill-job` and advances through the
+ * backfill queue: each event processes pages of results until its time
+ * budget is spent and queues the next event. Progress is checkpointed
+ * after every issue, so a slow page can't hold the job back, and an event
+ * also ends once its Jira API call budget is used up, leaving the issue it
+ * ran out on to the next event. One job runs at a
+ * time; cancelling it stops the job after the current issue.
+ */
+import { storage } from '@forge/api';
+import { Queue } from '@forge/events';
+import { countIssues, createApiBudget, cutShortByBudget, searchIssues } from './hierarchy';
+import { INVOCATION_TIME_BUDGET_MS } from './limits';
+import { rebuildRollup } from './rollup';
+import type { ApiBudget, BackfillJob } from './types';
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+const PAGE_SIZE = 25;
+/** A running job that hasn't progressed for this long may be replaced. */
+const STALE_AFTER_MS = 10 * 60 * 1000;
+const MAX_REPORTED_FAILURES = 50;
+
+const JOB_KEY = 'backfill-job';
+
+const backfillQueue = new Queue({ key: 'backfill-queue' });
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Starts a job for `jql`. Fails while another job is still running.
+ */
+export async function startBackfill(jql: string): Promise<BackfillJob> {
+  const query = jql.trim();
+  if (!query) throw new Error('Enter a JQL query');
+
+  const existing = await getBackfillJob();
+  if (existing?.status === 'running' && !isStale(existing)) {
+    throw new Error('A backfill is already running');
+  }
+
+  const now = new Date().toISOString();
+  const job: BackfillJob = {
+    id: `${Date.now()}`,
+    jql: query,
+    status: 'running',
+    startedAt: now,
+    updatedAt: now,
+    total: (await countIssues(query)) ?? undefined,
+    processed: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    failures: [],
+  };
+  await storage.set(JOB_KEY, job);
+  await backfillQueue.push({ jobId: job.id });
+  return job;
+}
+
+/** Stops the running job once its current issue is done. */
+export async function cancelBackfill(): Promise<BackfillJob | null> {
+  const job = await getBackfillJob();
+  if (!job || job.status !== 'running') return job;
+  const cancelled: BackfillJob = { ...job, status: 'cancelled', completedAt: new Date().toISOString() };
+  await storage.set(JOB_KEY, cancelled);
+  return cancelled;
+}
+
+/** The current or most recent job. */
+export async function getBackfillJob(): Promise<BackfillJob | null> {
+  return (await storage.get(JOB_KEY)) ?? null;
+}
+
+/**
+ * Queue consumer: processes pages of the job until the time budget is spent,
+ * then queues itself to continue. Events for replaced, cancelled or finished
+ * jobs are ignored.
+ */
+export async function processBackfill({ jobId }: { jobId: string }): Promise<void> {
+  const deadline = Date.now() + INVOCATION_TIME_BUDGET_MS;
+  const budget = createApiBudget();
+
+  while (Date.now() < deadline && !budget.exhausted) {
+    const job = await getBackfillJob();
+    if (!job || job.id !== jobId || job.status !== 'running') return;
+
+    const saved = await processPage(job, deadline, budget);
+    if (!saved || job.status !== 'running') return;
+  }
+
+  await backfillQueue.push({ jobId });
+}
+
+// ─── Internals ──────────────────────────────────────────────────────────────
+
+/**
+ * Recomputes the rest of the current page of matches, saving the job after
+ * each issue, then advances the page token — unless the deadline passes or
+ * the budget runs out first. False when the job was cancelled or replaced
+ * meanwhile.
+ */
+async function processPage(job: BackfillJob, deadline: number, budget: ApiBudget): Promise<boolean> {
+  let page;
+  try {
+    page = await searchIssues(job.jql, 'summary', job.pageToken, PAGE_SIZE);
+  } catch (err: any) {
+    job.status = 'failed';
+    job.error = String(err?.message ?? err);
+    return saveJob(job);
+  }
+
+  for (let i = job.position ?? 0; i < page.issues.length; i++) {
+    if (Date.now() >= deadline || budget.exhausted) return true;
+    const issue = page.issues[i];
+    const available = budget.remaining;
+    let updated = false;
+    let error: string | undefined;
+    try {
+      updated = (await rebuildRollup(issue.key, budget)) !== null;
+    } catch (err: any) {
+      error = String(err?.message ?? err);
+    }
+    // Possibly partial: the next event redoes the issue with a fresh budget
+    if (cutShortByBudget(budget, available)) return true;
+
+    if (error !== undefined) {
+      job.failed++;
+      if (job.failures.length < MAX_REPORTED_FAILURES) job.failures.push({ issueKey: issue.key, error });
+    } else if (updated) {
+      job.updated++;
+    } else {
+      job.skipped++;
+    }
+    job.processed++;
+    job.position = i + 1;
+    if (!(await saveJob(job))) return false;
+  }
+
+  job.pageToken = page.nextPageToken;
+  job.position = undefined;
+  if (page.issues.length === 0 || !page.nextPageToken) job.status = 'completed';
+  return saveJob(job);
+}
+
+/**
+ * Stores the job's progress. A cancel (or a new job) from the admin page
+ * that landed meanwhile wins: nothing is stored and the result is false.
+ */
+async function saveJob(job: BackfillJob): Promise<boolean> {
+  job.updatedAt = new Date().toISOString();
+  if (job.status !== 'running') job.completedAt = job.updatedAt;
+
+  const latest = await getBackfillJob();
+  if (latest?.id !== job.id || latest.status !== 'running') return false;
+  await storage.set(JOB_KEY, job);
+  return true;
+}
+
+function isStale(job: BackfillJob): boolean {
+  return Date.now() - Date.parse(job.updatedAt) > STALE_AFTER_MS;
+}
@@ -0,0 +1,136 @@
+/**
+ * breakdown.ts — What each metric was computed from, for the drill-down
+ * panel in the issue view: issues and story points per progress state and
+ * issue type, a subtotal per direct child, and for count metrics the keys
+ * of the issues counted. Issues with an excluded status are left out.
+ */
+import { snapshotIssue, snapshotTotals } from './formulas';
+import { classifyStatus } from './statuses';
+import type {
+  BreakdownBucket,
+  BreakdownChild,
+  FormulaType,
+  IssueSnapshot,
+  JiraIssue,
+  MetricBreakdown,
+  RollupTotals,
+  StatusSemantics,
+} from './types';
+
+/** Keeps the stored breakdown within a storage value. */
+export const MAX_ISSUE_KEYS = 100;
+export const MAX_CHILDREN = 100;
+
+/** Count metrics, and which descendants each one counts. */
+const COUNTED: Partial<Record<FormulaType, (totals: RollupTotals) => boolean>> = {
+  childCount: () => true,
+  blockedCount: (totals) => totals.blockedCount > 0,
+  percentComplete: (totals) => totals.doneCount > 0,
+};
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Breaks `descendants` of `parentKey` down for a metric of type `type`.
+ */
+export function buildBreakdown(
+  parentKey: string,
+  descendants: JiraIssue[],
+  type: FormulaType,
+  storyPointsField: string,
+  semantics?: StatusSemantics,
+): MetricBreakdown {
+  const breakdown: MetricBreakdown = {
+    byProgress: { todo: bucket(), inProgress: bucket(), done: bucket() },
+    byIssueType: {},
+    children: [],
+  };
+  const parentOf = new Map(
+    descendants.map((issue) => [issue.key, issue.parentKey ?? issue.fields?.parent?.key]),
+  );
+  const snapshots = descendants.map((issue) =>
+    snapshotIssue(issue, [storyPointsField], semantics?.flagField),
+  );
+  const included = descendants.map((_, i) => classifyStatus(snapshots[i], semantics) !== null);
+  const children = new Map<string, BreakdownChild>();
+  descendants.forEach((issue, i) => {
+    if (included[i] && parentOf.get(issue.key) === parentKey) {
+      children.set(issue.key, toChild(issue, snapshots[i]));
+    }
+  });
+  const counted = COUNTED[type];
+  const issueKeys: string[] = [];
+
+  descendants.forEach((issue, i) => {
+    if (!included[i]) return;
+    const totals = snapshotTotals(snapshots[i], storyPointsField, semantics);
+    const points = totals.totalStoryPoints;
+
+    add(breakdown.byProgress[progressOf(totals)], points);
+    const issueType = issue.fields?.issuetype?.name ?? 'Unknown';
+    add((breakdown.byIssueType[issueType] ??= bucket()), points);
+
+    const childKey = directChildOf(issue.key, parentKey, parentOf);
+    const child = childKey ? children.get(childKey) : undefined;
+    if (child) {
+      add(child.subtotal, points);
+      child.subtotal.doneCount += totals.doneCount;
+      child.subtotal.blockedCount += totals.blockedCount;
+    }
+
+    if (counted?.(totals)) issueKeys.push(issue.key);
+  });
+
+  breakdown.children = [...children.values()].slice(0, MAX_CHILDREN);
+  if (counted) {
+    breakdown.issueKeys = issueKeys.slice(0, MAX_ISSUE_KEYS);
+    if (issueKeys.length > MAX_ISSUE_KEYS) breakdown.issueKeyCount = issueKeys.length;
+  }
+  return breakdown;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * The direct child of `parentKey` whose subtree holds `issueKey`, following
+ * parent links within the fetched descendants.
+ */
+function directChildOf(
+  issueKey: string,
+  parentKey: string,
+  parentOf: Map<string, string | undefined>,
+): string | null {
+  let key = issueKey;
+  for (let guard = 0; guard <= parentOf.size; guard++) {
+    const parent = parentOf.get(key);
+    if (parent === parentKey) return key;
+    if (!parent || !parentOf.has(parent)) return null;
+    key = parent;
+  }
+  return null;
+}
+
+function toChild(issue: JiraIssue, snapshot: IssueSnapshot): BreakdownChild {
+  return {
+    key: issue.key,
+    summary: issue.fields?.summary ?? '',
+    issueType: issue.fields?.issuetype?.name ?? 'Unknown',
+    status: snapshot.status,
+    subtotal: { count: 0, points: 0, doneCount: 0, blockedCount: 0 },
+  };
+}
+
+function progressOf(totals: RollupTotals): keyof MetricBreakdown['byProgress'] {
+  if (totals.doneCount) return 'done';
+  if (totals.inProgressCount) return 'inProgress';
+  return 'todo';
+}
+
+function bucket(): BreakdownBucket {
+  return { count: 0, points: 0 };
+}
+
+function add(target: BreakdownBucket, points: number): void {
+  target.count++;
+  target.points += points;
+}
@@ -0,0 +1,185 @@
+/**
+ * changes.ts — Reads issue-updated changelogs: which edits the configured
+ * metrics depend on, and which ones move an issue within the hierarchy.
+ */
+import { compileFormula } from './formulas';
+import { getSemanticsFields } from './statuses';
+import { getFilterFields } from './filters';
+import type {
+  ConfigOverride,
+  FieldConfig,
+  IssueTriggerEvent,
+  StatusSemantics,
+  TraversalStrategy,
+} from './types';
+
+export const ISSUE_UPDATED_EVENT = 'avi:jira:updated:issue';
+export const ISSUE_DELETED_EVENT = 'avi:jira:deleted:issue';
+
+export type ChangelogItem = NonNullable<IssueTriggerEvent['changelog']>['items'][number];
+
+/** Changelog fields that record a change of parent. */
+const PARENT_FIELDS = ['parent', 'issueparentassociation', 'parent link'];
+
+/** Changelog fields that move an issue within the hierarchy. */
+const STRUCTURAL_FIELDS = [...PARENT_FIELDS, 'project', 'key'];
+
+/** Changelog field of added and removed issue links. */
+const LINK_FIELD = 'link';
+
+const ISSUE_KEY_PATTERN = /[A-Z][A-Z0-9_]*-\d+/;
+
+/**
+ * Fields every configuration depends on: status drives progress and
+ * counts, issue type drives scoped overrides, and moves change which
+ * ancestors include the issue.
+ */
+const BASE_FIELDS = ['status', 'issuetype', ...STRUCTURAL_FIELDS];
+
+const TIME_FIELDS = ['timeoriginalestimate', 'timespent', 'timeestimate', 'timetracking'];
+const TIME_TYPES: FieldConfig['type'][] = ['timeSpentSum', 'remainingEstimate', 'estimateAccuracy'];
+const TIME_VARIABLES = ['originalEstimate', 'timeSpent', 'remainingEstimate', 'estimateAccuracy'];
+
+/**
+ * Fields of a parent that its own metrics read, rather than its
+ * descendants': the due date a forecast is measured against, and the issue
+ * type that decides which metrics apply to it at all.
+ */
+const OWN_FIELDS = ['duedate', 'issuetype'];
+
+/** A field name or `cf[id]` followed by a JQL operator. */
+const JQL_FIELD_PATTERN =
+  /("[^"]+"|cf\[\d+\]|[\w.]+)\s*(?:!=|!~|<=|>=|=|~|<|>|\bnot\s+in\b|\bin\b|\bis\b|\bwas\b|\bchanged\b)/gi;
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Lower-cased field names and ids whose changes can affect a metric under
+ * the given definitions, overrides, status mapping and traversal strategies.
+ */
+export function getWatchedFields(
+  definitions: FieldConfig[],
+  overrides: ConfigOverride[],
+  semantics?: StatusSemantics,
+  strategies: TraversalStrategy[] = [],
+): Set<string> {
+  const watched = new Set(BASE_FIELDS);
+  const watch = (field: string) => watched.add(field.toLowerCase());
+  const watchTime = () => TIME_FIELDS.forEach(watch);
+
+  // Custom parent fields and links move issues between parents
+  for (const strategy of strategies) {
+    if (strategy.kind === 'parentLink') watch(strategy.field);
+    if (strategy.kind === 'issueLink') watch(LINK_FIELD);
+  }
+
+  // Blocked labels and the flag field feed blockedCount
+  getSemanticsFields(semantics).forEach(watch);
+
+  for (const definition of definitions) {
+    if (definition.storyPointsField) watch(definition.storyPointsField);
+    if (TIME_TYPES.includes(definition.type)) watchTime();
+    if (definition.type === 'forecastCompletion') OWN_FIELDS.forEach(watch);
+    if (definition.type !== 'custom') continue;
+
+    let dependencies;
+    try {
+      dependencies = compileFormula(definition.formula ?? '0').dependencies;
+    } catch {
+      continue; // An invalid formula evaluates to an error whatever changes
+    }
+    const variables: string[] = [...dependencies.contextVariables, ...dependencies.rowVariables];
+    if (variables.some((v) => TIME_VARIABLES.includes(v))) watchTime();
+    if (variables.includes('labels')) watch('labels');
+    dependencies.fields.forEach(watch);
+  }
+
+  // Edits can move a descendant in or out of a filtered metric
+  for (const definition of definitions) {
+    getFilterFields(definition.filter).forEach(watch);
+    if (definition.filter?.jql) getJqlFields(definition.filter.jql).forEach(watch);
+  }
+
+  for (const override of overrides) {
+    if (override.settings.storyPointsField) watch(override.settings.storyPointsField);
+  }
+
+  return watched;
+}
+
+/**
+ * Why an update event can be ignored, or null if metrics may have changed.
+ * Only issue-updated events with a changelog are ever skipped.
+ */
+export function getSkipReason(event: IssueTriggerEvent, watched: Set<string>): string | null {
+  const items = event.changelog?.items;
+  if (event.eventType !== ISSUE_UPDATED_EVENT || !items) return null;
+  if (items.length === 0) return 'no fields changed';
+  if (items.some((item) => matchesAny(item, watched))) return null;
+
+  const changed = [...new Set(items.map((item) => item.field))];
+  return `only ${changed.join(', ')} changed, which no metric depends on`;
+}
+
+/** True when the item moves the issue to another parent or project. */
+export function isStructuralChange(item: ChangelogItem): boolean {
+  return matchesAny(item, new Set(STRUCTURAL_FIELDS));
+}
+
+/**
+ * True when the event edits a field the issue's own metrics read, such as
+ * the due date a forecast is measured against or its issue type.
+ */
+export function changesOwnFields(event: IssueTriggerEvent): boolean {
+  return (event.changelog?.items ?? []).some((item) => matchesAny(item, new Set(OWN_FIELDS)));
+}
+
+/**
+ * Keys of the parents the issue was moved away from, read from the
+ * `parent` / `Parent Link` changelog from-values, the from-values of the
+ * custom parent fields in `strategies`, and — when links are followed —
+ * removed links.
+ */
+export function getPreviousParentKeys(
+  event: IssueTriggerEvent,
+  strategies: TraversalStrategy[] = [],
+): string[] {
+  const fields = new Set(PARENT_FIELDS);
+  for (const strategy of strategies) {
+    if (strategy.kind === 'parentLink') fields.add(strategy.field.toLowerCase());
+    if (strategy.kind === 'issueLink') fields.add(LINK_FIELD);
+  }
+  const keys = (event.changelog?.items ?? [])
+    .filter((item) => matchesAny(item, fields))
+    .map((item) => item.fromString?.match(ISSUE_KEY_PATTERN)?.[0])
+    .filter((key): key is string => !!key);
+  return [...new Set(keys)];
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Best-effort list of the fields a JQL clause compares, with `cf[10010]`
+ * as `customfield_10010`. Quoted names are kept as display names, which
+ * matchesAny compares against changelog field names.
+ */
+export function getJqlFields(jql: string): string[] {
+  return [...jql.matchAll(JQL_FIELD_PATTERN)].map(([, field]) =>
+    field
+      .replace(/^"|"$/g, '')
+      .replace(/^cf\[(\d+)\]$/i, 'customfield_$1'),
+  );
+}
+
+/**
+ * Changelog items name custom fields by display name ("Story Points") and
+ * id ("customfield_10016"); either may be what the config refers to.
+ */
+function matchesAny(item: ChangelogItem, fields: Set<string>): boolean {
+  const name = item.field.toLowerCase();
+  return (
+    fields.has(name) ||
+    fields.has(name.replace(/\s+/g, '_')) ||
+    (item.fieldId !== undefined && fields.has(item.fieldId.toLowerCase()))
+  );
+}
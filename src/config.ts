@@ -0,0 +1,368 @@
+/**
+ * config.ts — Loading and persisting rollup configuration in Forge Storage.
+ *
+ * The site holds an ordered list of named MetricDefinitions. The first one
+ * is the primary metric: it is what the custom field value returns.
+ * ConfigOverrides adjust those definitions per project and/or issue type.
+ * The status mapping (StatusSemantics) and the hierarchy traversal
+ * strategies apply to every metric.
+ */
+import { storage } from '@forge/api';
+import { DEFAULT_MAX_DEPTH, DEFAULT_STORY_POINTS_FIELD, DEFAULT_TRAVERSAL } from './hierarchy';
+import { DEFAULT_STATUS_SEMANTICS } from './statuses';
+import type {
+  ConfigOverride,
+  DescendantFilter,
+  FieldConfig,
+  FormulaType,
+  IssueScope,
+  MetricDefinition,
+  StatusSemantics,
+  TraversalStrategy,
+} from './types';
+
+// ─── Storage Keys ───────────────────────────────────────────────────────────
+const DEFINITIONS_KEY = 'metric-definitions';
+const OVERRIDES_KEY = 'config-overrides';
+const STATUS_SEMANTICS_KEY = 'status-semantics';
+const TRAVERSAL_KEY = 'traversal-strategies';
+/** Single config written by earlier versions; used until definitions are saved. */
+const LEGACY_CONFIG_KEY = 'global-field-config';
+
+// ─── Defaults ───────────────────────────────────────────────────────────────
+export const DEFAULT_METRIC: MetricDefinition = {
+  id: 'default',
+  name: 'Story Points',
+  type: 'storyPointSum',
+  storyPointsField: DEFAULT_STORY_POINTS_FIELD,
+};
+
+const FORMULA_TYPES: FormulaType[] = [
+  'storyPointSum',
+  'percentComplete',
+  'percentCompleteByPoints',
+  'statusProgress',
+  'undoneWork',
+  'storyPointAverage',
+  'childCount',
+  'blockedCount',
+  'timeSpentSum',
+  'remainingEstimate',
+  'estimateAccuracy',
+  'forecastCompletion',
+  'custom',
+];
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Returns all metric definitions, primary first. Falls back to the legacy
+ * `global-field-config` entry, then to DEFAULT_METRIC.
+ */
+export async function getMetricDefinitions(): Promise<MetricDefinition[]> {
+  const definitions: MetricDefinition[] | undefined = await storage.get(DEFINITIONS_KEY);
+  if (definitions?.length) return definitions;
+
+  const legacy: FieldConfig | undefined = await storage.get(LEGACY_CONFIG_KEY);
+  if (legacy) return [{ ...legacy, id: DEFAULT_METRIC.id, name: DEFAULT_METRIC.name }];
+
+  return [DEFAULT_METRIC];
+}
+
+/**
+ * Inserts or replaces a definition (matched by id). New definitions are
+ * appended; pass `primary` to move the definition to the front.
+ */
+export async function saveMetricDefinition(
+  definition: MetricDefinition,
+  primary = false,
+): Promise<MetricDefinition[]> {
+  const current = await getMetricDefinitions();
+  const index = current.findIndex((d) => d.id === definition.id);
+  const definitions = current.filter((d) => d.id !== definition.id);
+
+  if (primary) definitions.unshift(definition);
+  else if (index >= 0) definitions.splice(index, 0, definition);
+  else definitions.push(definition);
+
+  await storage.set(DEFINITIONS_KEY, definitions);
+  return definitions;
+}
+
+/**
+ * Removes a definition. The last remaining definition cannot be deleted.
+ */
+export async function deleteMetricDefinition(id: string): Promise<MetricDefinition[]> {
+  const definitions = await getMetricDefinitions();
+  const remaining = definitions.filter((d) => d.id !== id);
+  if (remaining.length === 0) {
+    throw new Error('At least one metric definition is required');
+  }
+  await storage.set(DEFINITIONS_KEY, remaining);
+  return remaining;
+}
+
+/**
+ * Builds a MetricDefinition from an untrusted Custom UI payload.
+ * A missing id is derived from the name and made unique.
+ */
+export function normalizeDefinition(
+  payload: any,
+  existing: MetricDefinition[],
+): MetricDefinition {
+  const name = String(payload?.name ?? '').trim() || 'Untitled metric';
+  const type: FormulaType = FORMULA_TYPES.includes(payload?.type)
+    ? payload.type
+    : 'storyPointSum';
+
+  return {
+    id: payload?.id || createMetricId(name, existing),
+    name,
+    type,
+    formula: type === 'custom' ? payload.formula : undefined,
+    thresholds: payload?.thresholds,
+    maxDepth: payload?.maxDepth,
+    storyPointsField: payload?.storyPointsField || DEFAULT_STORY_POINTS_FIELD,
+    hoursPerDay: payload?.hoursPerDay ? Number(payload.hoursPerDay) : undefined,
+    filter: normalizeFilter(payload?.filter),
+  };
+}
+
+// ─── Scoped Overrides ───────────────────────────────────────────────────────
+
+export async function getConfigOverrides(): Promise<ConfigOverride[]> {
+  const overrides: ConfigOverride[] | undefined = await storage.get(OVERRIDES_KEY);
+  return overrides ?? [];
+}
+
+/**
+ * Inserts or replaces the override for the payload's scope and metric.
+ */
+export async function saveConfigOverride(payload: any): Promise<ConfigOverride[]> {
+  const override = normalizeOverride(payload);
+  const overrides = (await getConfigOverrides()).filter((o) => o.id !== override.id);
+  overrides.push(override);
+  await storage.set(OVERRIDES_KEY, overrides);
+  return overrides;
+}
+
+export async function deleteConfigOverride(id: string): Promise<ConfigOverride[]> {
+  const overrides = (await getConfigOverrides()).filter((o) => o.id !== id);
+  await storage.set(OVERRIDES_KEY, overrides);
+  return overrides;
+}
+
+/**
+ * Definitions with every matching override applied and the status mapping
+ * attached, as used by recomputeForParent for an issue in `scope`.
+ */
+export async function getResolvedDefinitions(scope: IssueScope): Promise<MetricDefinition[]> {
+  const [definitions, overrides, statusSemantics] = await Promise.all([
+    getMetricDefinitions(),
+    getConfigOverrides(),
+    getStatusSemantics(),
+  ]);
+  return resolveDefinitions(definitions, overrides, scope).map((d) => ({ ...d, statusSemantics }));
+}
+
+/**
+ * Deepest hierarchy any definition or override may traverse. Ancestor walks
+ * use this, since the ancestors' scopes are not known up front.
+ */
+export async function getMaxConfiguredDepth(): Promise<number> {
+  const [definitions, overrides] = await Promise.all([
+    getMetricDefinitions(),
+    getConfigOverrides(),
+  ]);
+  return Math.max(
+    ...definitions.map((d) => d.maxDepth ?? DEFAULT_MAX_DEPTH),
+    ...overrides.map((o) => o.settings.maxDepth ?? 0),
+  );
+}
+
+/**
+ * Applies overrides in order of specificity: project, then issue type, then
+ * project + issue type. At each level all-metric overrides come before
+ * metric-specific ones, so the narrower setting wins.
+ */
+export function resolveDefinitions(
+  definitions: MetricDefinition[],
+  overrides: ConfigOverride[],
+  scope: IssueScope,
+): MetricDefinition[] {
+  const matching = overrides
+    .filter(
+      (o) =>
+        (!o.projectKey || o.projectKey === scope.projectKey) &&
+        (!o.issueType || o.issueType.toLowerCase() === scope.issueType?.toLowerCase()),
+    )
+    .sort((a, b) => specificity(a) - specificity(b));
+
+  return definitions.map((definition) =>
+    matching
+      .filter((o) => !o.metricId || o.metricId === definition.id)
+      .reduce<MetricDefinition>((resolved, o) => ({ ...resolved, ...o.settings }), definition),
+  );
+}
+
+// ─── Status Semantics ───────────────────────────────────────────────────────
+
+export async function getStatusSemantics(): Promise<StatusSemantics> {
+  const semantics: StatusSemantics | undefined = await storage.get(STATUS_SEMANTICS_KEY);
+  return semantics ?? DEFAULT_STATUS_SEMANTICS;
+}
+
+/**
+ * Replaces the status mapping. Stored rollups keep the old mapping until
+ * they are recomputed (by the daily reconciliation, a backfill, or the next
+ * change below them).
+ */
+export async function saveStatusSemantics(payload: any): Promise<StatusSemantics> {
+  const semantics = normalizeStatusSemantics(payload);
+  await storage.set(STATUS_SEMANTICS_KEY, semantics);
+  return semantics;
+}
+
+/**
+ * Builds a StatusSemantics from an untrusted Custom UI payload. Lists may
+ * be arrays or comma-separated strings; blanks and duplicates are dropped.
+ */
+export function normalizeStatusSemantics(payload: any): StatusSemantics {
+  const semantics: StatusSemantics = {
+    doneCategories: list(payload?.doneCategories).map((c) => c.toLowerCase()),
+    doneStatuses: list(payload?.doneStatuses),
+    excludedStatuses: list(payload?.excludedStatuses),
+    blockedStatuses: list(payload?.blockedStatuses),
+    blockedLabels: list(payload?.blockedLabels),
+  };
+  const flagField = String(payload?.flagField ?? '').trim();
+  if (flagField) semantics.flagField = flagField;
+  if (semantics.doneCategories.length === 0 && semantics.doneStatuses.length === 0) {
+    throw new Error('At least one status category or status must count as done');
+  }
+  return semantics;
+}
+
+// ─── Traversal Strategies ───────────────────────────────────────────────────
+
+export async function getTraversalStrategies(): Promise<TraversalStrategy[]> {
+  const strategies: TraversalStrategy[] | undefined = await storage.get(TRAVERSAL_KEY);
+  return strategies?.length ? strategies : DEFAULT_TRAVERSAL;
+}
+
+/**
+ * Replaces the relationships followed from parents to children. Like the
+ * status mapping, stored rollups change as they are recomputed.
+ */
+export async function saveTraversalStrategies(payload: any): Promise<TraversalStrategy[]> {
+  const strategies = normalizeTraversalStrategies(payload);
+  await storage.set(TRAVERSAL_KEY, strategies);
+  return strategies;
+}
+
+/**
+ * Builds strategies from an untrusted Custom UI payload. Duplicates are
+ * dropped; at least one strategy is required.
+ */
+export function normalizeTraversalStrategies(payload: any): TraversalStrategy[] {
+  const strategies: TraversalStrategy[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of Array.isArray(payload) ? payload : []) {
+    const strategy = normalizeStrategy(raw);
+    const id = JSON.stringify({ ...strategy, maxDepth: undefined });
+    if (seen.has(id)) continue;
+    seen.add(id);
+    strategies.push(strategy);
+  }
+
+  if (strategies.length === 0) throw new Error('At least one hierarchy relationship is required');
+  return strategies;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function normalizeStrategy(raw: any): TraversalStrategy {
+  const maxDepth = Number(raw?.maxDepth) >= 1 ? Math.floor(Number(raw.maxDepth)) : undefined;
+  switch (raw?.kind) {
+    case 'parent':
+      return { kind: 'parent', maxDepth };
+    case 'parentLink': {
+      const field = String(raw.field ?? '').trim();
+      if (!field) throw new Error('A parent field strategy needs a field id, e.g. customfield_10018');
+      return { kind: 'parentLink', field, maxDepth };
+    }
+    case 'issueLink': {
+      const linkType = String(raw.linkType ?? '').trim();
+      if (!linkType) throw new Error('An issue link strategy needs a link type, e.g. Implements');
+      const direction = raw.direction === 'outward' ? 'outward' : 'inward';
+      return { kind: 'issueLink', linkType, direction, maxDepth };
+    }
+    default:
+      throw new Error(`Unknown hierarchy relationship: ${raw?.kind}`);
+  }
+}
+
+/** An array, or a comma-separated string, without blanks and duplicates. */
+function list(raw: unknown): string[] {
+  const items = Array.isArray(raw) ? raw : String(raw ?? '').split(',');
+  return [...new Set(items.map((item) => String(item).trim()).filter(Boolean))];
+}
+
+/**
+ * The conditions of a filter payload that have values, or undefined when
+ * none do. The JQL clause is appended to searches, so it can't sort them.
+ */
+function normalizeFilter(payload: any): DescendantFilter | undefined {
+  const filter: DescendantFilter = {};
+  for (const key of ['issueTypes', 'statuses', 'labels', 'components'] as const) {
+    const values = list(payload?.[key]?.values);
+    if (values.length) filter[key] = { values, exclude: payload[key].exclude === true };
+  }
+  const jql = String(payload?.jql ?? '').trim();
+  if (/\border\s+by\b/i.test(jql)) {
+    throw new Error('The filter JQL is added to each child search and cannot contain ORDER BY');
+  }
+  if (jql) filter.jql = jql;
+  return Object.keys(filter).length ? filter : undefined;
+}
+
+function createMetricId(name: string, existing: MetricDefinition[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'metric';
+  const taken = new Set(existing.map((d) => d.id));
+
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+function normalizeOverride(payload: any): ConfigOverride {
+  const projectKey = String(payload?.projectKey ?? '').trim().toUpperCase() || undefined;
+  const issueType = String(payload?.issueType ?? '').trim() || undefined;
+  const metricId = payload?.metricId || undefined;
+  if (!projectKey && !issueType) {
+    throw new Error('An override needs a project key, an issue type, or both');
+  }
+
+  const settings: ConfigOverride['settings'] = {};
+  if (Array.isArray(payload?.thresholds)) settings.thresholds = payload.thresholds;
+  if (payload?.maxDepth) settings.maxDepth = Number(payload.maxDepth);
+  if (payload?.storyPointsField) settings.storyPointsField = String(payload.storyPointsField);
+
+  return {
+    id: [projectKey ?? '*', issueType ?? '*', metricId ?? '*'].join('|'),
+    projectKey,
+    issueType,
+    metricId,
+    settings,
+  };
+}
+
+function specificity(override: ConfigOverride): number {
+  const scope = (override.projectKey ? 1 : 0) + (override.issueType ? 2 : 0);
+  return scope * 2 + (override.metricId ? 1 : 0);
+}
@@ -0,0 +1,119 @@
+/**
+ * debounce.ts — Trailing-edge debounce for full recomputes.
+ *
+ * Every trigger marks the keys it touched as dirty. The first mark of a
+ * burst queues one delayed event per key; later marks only move the key's
+ * `lastSeenAt` forward. When the event arrives while the burst is still
+ * going it re-queues itself for the rest of the quiet period, so the
+ * recompute runs once, after the last change. An entry that outlived every
+ * event it could have (the push or the consumer failed) is queued again by
+ * the next mark.
+ *
+ * Storage, queue and clock are injected so bursts can be simulated in tests.
+ */
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+/** How long a key must stay untouched before it is recomputed. */
+export const QUIET_PERIOD_MS = 5000;
+/** A key is recomputed at the latest this long after the first mark. */
+export const MAX_WAIT_MS = 60000;
+/**
+ * An entry older than this has lost its event: a live one is recomputed
+ * within MAX_WAIT_MS, give or take queue delivery and the recompute itself.
+ */
+export const ORPHANED_AFTER_MS = MAX_WAIT_MS + 60000;
+
+const dirtyKey = (issueKey: string) => `dirty-${issueKey}`;
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** The subset of Forge Storage the debouncer uses. */
+export interface DebounceStore {
+  get(key: string): Promise<any>;
+  set(key: string, value: any): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Delivers `payload` to the consumer after `delayInSeconds`. */
+export interface DebounceQueue {
+  push(payload: DebounceEvent, delayInSeconds: number): Promise<unknown>;
+}
+
+export interface DebounceEvent {
+  issueKey: string;
+}
+
+/** Stored under `dirty-<issueKey>` while a recompute is pending. */
+interface DirtyEntry {
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+export interface DebounceDeps {
+  store: DebounceStore;
+  queue: DebounceQueue;
+  recompute: (issueKey: string) => Promise<unknown>;
+  now?: () => number;
+}
+
+export interface Debouncer {
+  /** Marks keys as needing a recompute once their burst settles. */
+  markDirty(issueKeys: string[]): Promise<void>;
+  /** Queue consumer: recomputes the key if it has been quiet long enough. */
+  process(event: DebounceEvent): Promise<void>;
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Marks that race each other may both find no entry and queue two events;
+ * the second one then finds the entry gone or still busy, so the cost is at
+ * most one extra recompute — never a lost one.
+ */
+export function createDebouncer({
+  store,
+  queue,
+  recompute,
+  now = Date.now,
+}: DebounceDeps): Debouncer {
+  async function markDirty(issueKeys: string[]): Promise<void> {
+    const timestamp = now();
+    for (const issueKey of new Set(issueKeys)) {
+      const stored: DirtyEntry | undefined = await store.get(dirtyKey(issueKey));
+      const entry = stored && timestamp - stored.firstSeenAt <= ORPHANED_AFTER_MS ? stored : undefined;
+      // An event is already on its way for a pending key. Otherwise queue one
+      // before storing the entry, so a failed push leaves the key unmarked.
+      if (!entry) await queue.push({ issueKey }, toSeconds(QUIET_PERIOD_MS));
+      await store.set(dirtyKey(issueKey), {
+        firstSeenAt: entry?.firstSeenAt ?? timestamp,
+        lastSeenAt: timestamp,
+      });
+    }
+  }
+
+  async function process({ issueKey }: DebounceEvent): Promise<void> {
+    const entry: DirtyEntry | undefined = await store.get(dirtyKey(issueKey));
+    if (!entry) return; // Already recomputed by a duplicate event
+
+    const current = now();
+    const quietFor = current - entry.lastSeenAt;
+    if (quietFor < QUIET_PERIOD_MS && current - entry.firstSeenAt < MAX_WAIT_MS) {
+      await queue.push({ issueKey }, toSeconds(QUIET_PERIOD_MS - quietFor));
+      return;
+    }
+
+    // Cleared first: a change made while recomputing starts a new burst,
+    // which guarantees it a recompute of its own.
+    await store.delete(dirtyKey(issueKey));
+    await recompute(issueKey);
+  }
+
+  return { markDirty, process };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Queue delays are whole seconds; round up so we never fire early. */
+function toSeconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
@@ -0,0 +1,110 @@
+/**
+ * filters.ts — Which descendants a metric includes.
+ *
+ * A definition's DescendantFilter is turned into a JQL clause appended to
+ * every child search, so an issue the filter leaves out is skipped together
+ * with everything below it. The same conditions (bar the free-form JQL) are
+ * applied again when the FormulaContext is built, so a context built from
+ * unfiltered issues agrees with the traversal.
+ */
+import type { DescendantFilter, FilterCondition, JiraIssue } from './types';
+
+type ConditionKey = Exclude<keyof DescendantFilter, 'jql'>;
+
+/** JQL field of each condition, and whether an issue can have no value. */
+const CONDITION_FIELDS: Record<ConditionKey, { jql: string; optional: boolean }> = {
+  issueTypes: { jql: 'issuetype', optional: false },
+  statuses: { jql: 'status', optional: false },
+  labels: { jql: 'labels', optional: true },
+  components: { jql: 'component', optional: true },
+};
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/** True when the filter leaves anything out. */
+export function hasFilter(filter: DescendantFilter | undefined): boolean {
+  if (!filter) return false;
+  return !!filter.jql?.trim() || conditions(filter).length > 0;
+}
+
+/**
+ * The filter as a JQL clause to AND with `parent = …`, or '' for none.
+ * `labels not in (…)` doesn't match issues without labels, so exclusions
+ * on optional fields also accept an empty field.
+ */
+export function filterToJql(filter: DescendantFilter | undefined): string {
+  if (!filter) return '';
+  const clauses = conditions(filter).map(([key, condition]) => {
+    const { jql, optional } = CONDITION_FIELDS[key];
+    const values = condition.values.map(quote).join(', ');
+    if (!condition.exclude) return `${jql} in (${values})`;
+    return optional ? `(${jql} not in (${values}) OR ${jql} is EMPTY)` : `${jql} not in (${values})`;
+  });
+  if (filter.jql?.trim()) clauses.push(`(${filter.jql.trim()})`);
+  return clauses.join(' AND ');
+}
+
+/**
+ * The issues that pass the filter, also dropping those below an issue that
+ * doesn't — as the traversal would. Expects parents before their children,
+ * tagged with `parentKey`, the way getDescendants returns them.
+ */
+export function filterDescendants(
+  issues: JiraIssue[],
+  filter: DescendantFilter | undefined,
+): JiraIssue[] {
+  if (!filter) return issues;
+  const rejected = new Set<string>();
+  return issues.filter((issue) => {
+    if ((issue.parentKey && rejected.has(issue.parentKey)) || !matchesFilter(issue, filter)) {
+      rejected.add(issue.key);
+      return false;
+    }
+    return true;
+  });
+}
+
+/** True when `issue` passes every condition; the JQL clause isn't checked here. */
+export function matchesFilter(issue: JiraIssue, filter: DescendantFilter | undefined): boolean {
+  if (!filter) return true;
+  return conditions(filter).every(([key, condition]) => {
+    const wanted = new Set(condition.values.map((v) => v.toLowerCase()));
+    const found = readValues(issue, key).some((value) => wanted.has(value.toLowerCase()));
+    return condition.exclude ? !found : found;
+  });
+}
+
+/** Issue fields matchesFilter reads beyond the standard set. */
+export function getFilterFields(filter: DescendantFilter | undefined): string[] {
+  const fields: string[] = [];
+  if (filter?.labels?.values.length) fields.push('labels');
+  if (filter?.components?.values.length) fields.push('components');
+  return fields;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** The conditions that have values, in a fixed order. */
+function conditions(filter: DescendantFilter): Array<[ConditionKey, FilterCondition]> {
+  return (Object.keys(CONDITION_FIELDS) as ConditionKey[])
+    .filter((key) => filter[key]?.values.length)
+    .map((key) => [key, filter[key]!]);
+}
+
+function readValues(issue: JiraIssue, key: ConditionKey): string[] {
+  const fields = issue.fields ?? {};
+  switch (key) {
+    case 'issueTypes':
+      return [fields.issuetype?.name ?? ''];
+    case 'statuses':
+      return [fields.status?.name ?? ''];
+    case 'labels':
+      return fields.labels ?? [];
+    case 'components':
+      return (fields.components ?? []).map((c: { name?: string }) => c.name ?? '');
+  }
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,94 @@
+/**
+ * forecast.ts — Projects a parent's completion date from its burn history.
+ *
+ * The burn rate is the least-squares slope of work done over the samples
+ * in a recent window, so one busy or idle day doesn't swing the forecast.
+ * The confidence range comes from the slope's standard error. Work is
+ * measured in story points when the parent has any, else in items.
+ */
+import type { BurnSample } from './types';
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+/** Only samples this recent feed the burn rate. */
+export const WINDOW_DAYS = 28;
+/** The samples must span at least this long to give a rate. */
+export const MIN_SPAN_DAYS = 1;
+/** z-score of the confidence range (80%). */
+const CONFIDENCE_Z = 1.2816;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Forecast {
+  /** Projected completion time in ms. */
+  date: number;
+  /** Completion at the fast end of the confidence range. */
+  earliest: number;
+  /** Completion at the slow end; null when that end shows no progress. */
+  latest: number | null;
+  /** Work done per day, in `unit`. */
+  velocity: number;
+  unit: 'points' | 'items';
+}
+
+/** Why no date could be projected. */
+export type ForecastGap = 'complete' | 'insufficientHistory' | 'noProgress';
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Projects when the remaining work is done, given the samples so far (the
+ * last being the current totals) and the items still open.
+ */
+export function forecastCompletion(
+  samples: BurnSample[],
+  undoneCount: number,
+  now: number,
+): Forecast | ForecastGap {
+  // Unpointed work left once the points are done is forecast in items
+  const remainingPoints = samples[samples.length - 1]?.remainingPoints ?? 0;
+  const unit = remainingPoints > 0 ? 'points' : 'items';
+  const remaining = unit === 'points' ? remainingPoints : undoneCount;
+  if (remaining <= 0) return 'complete';
+
+  const recent = samples.filter((s) => Date.parse(s.at) >= now - WINDOW_DAYS * DAY_MS);
+  const t = recent.map((s) => (Date.parse(s.at) - now) / DAY_MS);
+  // Work done so far; points added to the scope count against it
+  const y = recent.map((s) => (unit === 'points' ? -s.remainingPoints : s.doneCount));
+  if (recent.length < 2 || Math.max(...t) - Math.min(...t) < MIN_SPAN_DAYS) {
+    return 'insufficientHistory';
+  }
+
+  const { slope, standardError } = fitLine(t, y);
+  if (slope <= 0) return 'noProgress';
+
+  const fast = slope + CONFIDENCE_Z * standardError;
+  const slow = slope - CONFIDENCE_Z * standardError;
+  return {
+    date: now + (remaining / slope) * DAY_MS,
+    earliest: now + (remaining / fast) * DAY_MS,
+    latest: slow > 0 ? now + (remaining / slow) * DAY_MS : null,
+    velocity: Math.round(slope * 10) / 10,
+    unit,
+  };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Least-squares slope of y over x, and its standard error (0 for two points). */
+function fitLine(x: number[], y: number[]): { slope: number; standardError: number } {
+  const n = x.length;
+  const meanX = x.reduce((a, b) => a + b, 0) / n;
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (x[i] - meanX) ** 2;
+    sxy += (x[i] - meanX) * (y[i] - meanY);
+  }
+  const slope = sxy / sxx;
+  if (n < 3) return { slope, standardError: 0 };
+
+  const intercept = meanY - slope * meanX;
+  const residuals = x.reduce((sum, xi, i) => sum + (y[i] - (intercept + slope * xi)) ** 2, 0);
+  return { slope, standardError: Math.sqrt(residuals / (n - 2) / sxx) };
+}
@@ -8,20 +8,70 @@ import type {
   FieldConfig,
   MetricResult,
   FormulaContext,
+  FormulaPreview,
+  BurnSample,
+  BurnTotals,
+  ForecastTimeline,
+  IssueSnapshot,
+  ProgressSegments,
+  RollupTotals,
+  StatusSemantics,
 } from './types';
 import { DEFAULT_STORY_POINTS_FIELD } from './hierarchy';
+import { classifyStatus, isBlocked } from './statuses';
+import { filterDescendants } from './filters';
+import { forecastCompletion } from './forecast';
+import { FUNCTIONS, parseFormula } from './parser';
+import type { BinaryOperator, ContextVariable, FormulaNode } from './parser';
 
 // ─── Public API ─────────────────────────────────────────────────────────────
 
 /**
  * Compute the metric value for a parent issue given its descendants
- * and the configured formula.
+ * and the configured formula. Forecasts also need the parent's `timeline`.
  */
 export function computeAggregate(
   descendants: JiraIssue[],
   config: FieldConfig,
+  timeline?: ForecastTimeline,
+): MetricResult {
+  return computeFromContext(buildContext(descendants, config), config, timeline);
+}
+
+/**
+ * Compute the metric value from stored totals instead of the descendants
+ * themselves. Only valid when canComputeFromTotals(config) is true.
+ * `byDepth` holds the totals of each level, for DEPTH() and level subtotals.
+ */
+export function computeFromTotals(
+  totals: RollupTotals,
+  config: FieldConfig,
+  timeline?: ForecastTimeline,
+  byDepth: RollupTotals[] = [],
+): MetricResult {
+  const spField = config.storyPointsField || DEFAULT_STORY_POINTS_FIELD;
+  return computeFromContext(
+    contextFromTotals(totals, [], spField, byDepth, config.statusSemantics),
+    config,
+    timeline,
+  );
+}
+
+/**
+ * True when the metric depends on nothing but RollupTotals — every preset,
+ * and custom formulas that don't visit individual descendants.
+ */
+export function canComputeFromTotals(config: FieldConfig): boolean {
+  if (config.type !== 'custom') return true;
+  const compiled = tryCompile(config.formula ?? '0');
+  return !compiled || !compiled.dependencies.usesAggregates;
+}
+
+function computeFromContext(
+  ctx: FormulaContext,
+  config: FieldConfig,
+  timeline?: ForecastTimeline,
 ): MetricResult {
-  const ctx = buildContext(descendants, config.storyPointsField);
   let result: MetricResult;
 
   switch (config.type) {
@@ -48,7 +98,33 @@ export function computeAggregate(
       result = {
         value: pct,
         label: `${pct}%`,
-        color: pct === 100 ? 'green' : pct >= 50 ? 'yellow' : 'red',
+        color: progressColor(pct),
+        segments: toSegments(ctx.todoCount, ctx.inProgressCount, ctx.doneCount),
+        updatedAt: now(),
+      };
+      break;
+    }
+
+    case 'percentCompleteByPoints': {
+      const pct = ctx.percentCompleteByPoints;
+      const todoPoints = ctx.totalStoryPoints - ctx.donePoints - ctx.inProgressPoints;
+      result = {
+        value: pct,
+        label: `${pct}% of SP`,
+        color: progressColor(pct),
+        segments: toSegments(todoPoints, ctx.inProgressPoints, ctx.donePoints),
+        updatedAt: now(),
+      };
+      break;
+    }
+
+    case 'statusProgress': {
+      const segments = toSegments(ctx.todoCount, ctx.inProgressCount, ctx.doneCount);
+      result = {
+        value: segments.done,
+        label: `${segments.done}% done · ${segments.inProgress}% in progress`,
+        color: progressColor(segments.done),
+        segments,
         updatedAt: now(),
       };
       break;
@@ -73,9 +149,7 @@ export function computeAggregate(
       break;
 
     case 'blockedCount': {
-      const blocked = descendants.filter(
-        (i) => i.fields?.status?.name?.toLowerCase() === 'blocked',
-      ).length;
+      const blocked = ctx.blockedCount;
       result = applyThresholds(blocked, `${blocked} blocked`, config, {
         low: 1,
         high: 3,
@@ -83,6 +157,37 @@ export function computeAggregate(
       break;
     }
 
+    case 'timeSpentSum':
+      result = applyThresholds(
+        ctx.timeSpent,
+        `${formatDuration(ctx.timeSpent, config.hoursPerDay)} logged`,
+        config,
+        { low: 40, high: 160 },
+      );
+      break;
+
+    case 'remainingEstimate':
+      result = applyThresholds(
+        ctx.remainingEstimate,
+        `${formatDuration(ctx.remainingEstimate, config.hoursPerDay)} left`,
+        config,
+        { low: 40, high: 120 },
+      );
+      break;
+
+    case 'estimateAccuracy': {
+      // 100% = tracking to estimate; above 100% = overrun
+      const pct = ctx.estimateAccuracy;
+      result = ctx.originalEstimate
+        ? applyThresholds(pct, `${pct}% of estimate`, config, { low: 110, high: 130 })
+        : { value: 0, label: 'No estimate', color: 'grey', updatedAt: now() };
+      break;
+    }
+
+    case 'forecastCompletion':
+      result = forecastResult(ctx, config, timeline);
+      break;
+
     case 'custom':
       result = evaluateCustomFormula(ctx, config);
       break;
@@ -97,42 +202,239 @@ export function computeAggregate(
   }
 
   result.formulaType = config.type;
+  if (ctx.levels?.length) {
+    result.levels = ctx.levels.map((level, i) => ({
+      depth: i + 1,
+      childCount: level.childCount,
+      doneCount: level.doneCount,
+      totalStoryPoints: level.totalStoryPoints,
+      donePoints: level.donePoints,
+    }));
+  }
   return result;
 }
 
-// ─── Formula Context Builder ────────────────────────────────────────────────
+/** Context variables each preset formula reads. */
+const PRESET_VARIABLES: Record<Exclude<FieldConfig['type'], 'custom'>, ContextVariable[]> = {
+  storyPointSum: ['totalStoryPoints'],
+  storyPointAverage: ['totalStoryPoints', 'childCount'],
+  percentComplete: ['percentComplete', 'todoCount', 'inProgressCount', 'doneCount'],
+  percentCompleteByPoints: [
+    'percentCompleteByPoints',
+    'totalStoryPoints',
+    'inProgressPoints',
+    'donePoints',
+  ],
+  statusProgress: ['todoCount', 'inProgressCount', 'doneCount'],
+  undoneWork: ['remainingPoints'],
+  childCount: ['childCount'],
+  blockedCount: ['blockedCount'],
+  timeSpentSum: ['timeSpent'],
+  remainingEstimate: ['remainingEstimate'],
+  estimateAccuracy: ['estimateAccuracy', 'originalEstimate', 'timeSpent'],
+  forecastCompletion: ['remainingPoints', 'doneCount', 'undoneCount'],
+};
 
-function buildContext(issues: JiraIssue[], storyPointsField?: string): FormulaContext {
-  const childCount = issues.length;
-  const spField = storyPointsField || DEFAULT_STORY_POINTS_FIELD;
+/**
+ * Computes the metric like computeAggregate and also reports the context
+ * variables the formula reads, so admins can check a formula before saving.
+ */
+export function previewAggregate(
+  descendants: JiraIssue[],
+  config: FieldConfig,
+  timeline?: ForecastTimeline,
+): FormulaPreview {
+  const ctx = buildContext(descendants, config);
+  const names =
+    config.type === 'custom'
+      ? extractContextVariables(config.formula ?? '')
+      : PRESET_VARIABLES[config.type] ?? [];
 
-  const totalStoryPoints = issues.reduce(
-    (sum, i) => sum + getStoryPoints(i, spField),
-    0,
-  );
+  return {
+    result: computeAggregate(descendants, config, timeline),
+    variables: Object.fromEntries(names.map((name) => [name, ctx[name]])),
+    descendantCount: descendants.length,
+  };
+}
 
-  const doneCount = issues.filter(
-    (i) => i.fields?.status?.statusCategory?.key === 'done',
-  ).length;
+// ─── Formula Context Builder ────────────────────────────────────────────────
 
-  const undoneCount = childCount - doneCount;
+/**
+ * Issues the definition's filter rejects, or with an excluded status, are
+ * left out, also of the aggregates.
+ */
+function buildContext(descendants: JiraIssue[], config: FieldConfig): FormulaContext {
+  const issues = filterDescendants(descendants, config.filter);
+  const spField = config.storyPointsField || DEFAULT_STORY_POINTS_FIELD;
+  const semantics = config.statusSemantics;
+  const snapshots = issues.map((i) => snapshotIssue(i, [spField], semantics?.flagField));
+  const counted = issues.filter((_, i) => classifyStatus(snapshots[i], semantics) !== null);
+  const byDepth = sumTotalsByDepth(snapshots, issues.map((i) => i.depth), spField, semantics);
+  return contextFromTotals(sumTotals(snapshots, spField, semantics), counted, spField, byDepth, semantics);
+}
 
-  const remainingPoints = issues
-    .filter((i) => i.fields?.status?.statusCategory?.key !== 'done')
-    .reduce((sum, i) => sum + getStoryPoints(i, spField), 0);
+function contextFromTotals(
+  totals: RollupTotals,
+  issues: JiraIssue[],
+  spField: string,
+  byDepth: RollupTotals[] = [],
+  semantics?: StatusSemantics,
+): FormulaContext {
+  const { childCount, totalStoryPoints, doneCount, inProgressCount, donePoints, inProgressPoints } =
+    totals;
+  const todoCount = childCount - doneCount - inProgressCount;
+  const undoneCount = childCount - doneCount;
+  const remainingPoints = totalStoryPoints - donePoints;
 
   const percentComplete = childCount
     ? Math.round((doneCount / childCount) * 100)
     : 0;
 
+  const percentCompleteByPoints = totalStoryPoints
+    ? Math.round((donePoints / totalStoryPoints) * 100)
+    : 0;
+
+  const originalEstimate = toHours(totals.originalEstimate);
+  const timeSpent = toHours(totals.timeSpent);
+  const remainingEstimate = toHours(totals.remainingEstimate);
+
+  const estimateAccuracy = originalEstimate
+    ? Math.round(((timeSpent + remainingEstimate) / originalEstimate) * 100)
+    : 0;
+
   return {
     children: issues,
+    levels: byDepth.map((level, i) =>
+      contextFromTotals(level, issues.filter((issue) => issue.depth === i + 1), spField, [], semantics),
+    ),
+    storyPointsField: spField,
+    statusSemantics: semantics,
     childCount,
     totalStoryPoints,
     doneCount,
     undoneCount,
     remainingPoints,
     percentComplete,
+    todoCount,
+    inProgressCount,
+    donePoints,
+    inProgressPoints,
+    percentCompleteByPoints,
+    blockedCount: totals.blockedCount,
+    originalEstimate,
+    timeSpent,
+    remainingEstimate,
+    estimateAccuracy,
+  };
+}
+
+// ─── Rollup Totals ──────────────────────────────────────────────────────────
+
+/**
+ * The parts of `issue` that feed RollupTotals, with story points read from
+ * each of `storyPointsFields` and the flag from `flagField`, if any.
+ */
+export function snapshotIssue(
+  issue: JiraIssue,
+  storyPointsFields: string[],
+  flagField?: string,
+): IssueSnapshot {
+  const time = getTimeTracking(issue);
+  const flag = flagField ? issue.fields?.[flagField] : undefined;
+  return {
+    key: issue.key,
+    status: issue.fields?.status?.name ?? '',
+    statusCategory: issue.fields?.status?.statusCategory?.key ?? '',
+    labels: issue.fields?.labels ?? [],
+    flagged: Array.isArray(flag) ? flag.length > 0 : !!flag,
+    points: Object.fromEntries(storyPointsFields.map((f) => [f, getStoryPoints(issue, f)])),
+    ...time,
+  };
+}
+
+/** What one issue adds to its ancestors' totals; nothing when it's excluded. */
+export function snapshotTotals(
+  snapshot: IssueSnapshot,
+  storyPointsField: string,
+  semantics?: StatusSemantics,
+): RollupTotals {
+  const points = snapshot.points[storyPointsField] ?? 0;
+  const state = classifyStatus(snapshot, semantics);
+  if (state === null) return emptyTotals();
+  return {
+    childCount: 1,
+    totalStoryPoints: points,
+    doneCount: state === 'done' ? 1 : 0,
+    inProgressCount: state === 'inProgress' ? 1 : 0,
+    donePoints: state === 'done' ? points : 0,
+    inProgressPoints: state === 'inProgress' ? points : 0,
+    blockedCount: isBlocked(snapshot, semantics) ? 1 : 0,
+    originalEstimate: snapshot.originalEstimate,
+    timeSpent: snapshot.timeSpent,
+    remainingEstimate: snapshot.remainingEstimate,
+  };
+}
+
+export function sumTotals(
+  snapshots: IssueSnapshot[],
+  storyPointsField: string,
+  semantics?: StatusSemantics,
+): RollupTotals {
+  return snapshots.reduce(
+    (sum, snapshot) => addTotals(sum, snapshotTotals(snapshot, storyPointsField, semantics)),
+    emptyTotals(),
+  );
+}
+
+/**
+ * Totals per level, from the snapshots of issues found at `depths[i]`.
+ * Index 0 holds depth 1; issues without a depth are left out.
+ */
+export function sumTotalsByDepth(
+  snapshots: IssueSnapshot[],
+  depths: Array<number | undefined>,
+  storyPointsField: string,
+  semantics?: StatusSemantics,
+): RollupTotals[] {
+  const levels: RollupTotals[] = [];
+  snapshots.forEach((snapshot, i) => {
+    const depth = depths[i];
+    if (!depth) return;
+    while (levels.length < depth) levels.push(emptyTotals());
+    levels[depth - 1] = addTotals(levels[depth - 1], snapshotTotals(snapshot, storyPointsField, semantics));
+  });
+  return levels;
+}
+
+/** `a + sign * b`, field by field. */
+export function addTotals(a: RollupTotals, b: RollupTotals, sign: 1 | -1 = 1): RollupTotals {
+  const result = { ...a };
+  for (const key of Object.keys(result) as (keyof RollupTotals)[]) {
+    result[key] += sign * b[key];
+  }
+  return result;
+}
+
+/** The parts of the totals a forecast burns down. */
+export function burnTotals(totals: RollupTotals): BurnTotals {
+  return {
+    remainingPoints: totals.totalStoryPoints - totals.donePoints,
+    doneCount: totals.doneCount,
+  };
+}
+
+function emptyTotals(): RollupTotals {
+  return {
+    childCount: 0,
+    totalStoryPoints: 0,
+    doneCount: 0,
+    inProgressCount: 0,
+    donePoints: 0,
+    inProgressPoints: 0,
+    blockedCount: 0,
+    originalEstimate: 0,
+    timeSpent: 0,
+    remainingEstimate: 0,
   };
 }
 
@@ -143,13 +445,24 @@ function buildContext(issues: JiraIssue[], storyPointsField?: string): FormulaCo
  *
  * Supported tokens:
  *   Variables: totalStoryPoints, doneCount, undoneCount, childCount,
- *              remainingPoints, percentComplete
+ *              remainingPoints, percentComplete, todoCount,
+ *              inProgressCount, donePoints, inProgressPoints,
+ *              percentCompleteByPoints, blockedCount, originalEstimate,
+ *              timeSpent, remainingEstimate (hours), estimateAccuracy
  *   Operators: + - * / ( )
  *   Comparisons: > < >= <= == !=
+ *   Logic: AND OR NOT (also && || !), short-circuiting
+ *   Strings: "double" or 'single' quoted, with \ escapes
  *   Functions: ROUND(), ABS(), MIN(), MAX(), IF(cond, then, else)
+ *   Aggregates: COUNT(cond), COUNTIF(cond), SUM(x), AVG(x), MEDIAN(x),
+ *               PERCENTILE(x, p) — evaluated per descendant, where
+ *               key, status, statusCategory, issuetype, labels, storyPoints,
+ *               done, originalEstimate, timeSpent, remainingEstimate and
+ *               field("name") refer to that descendant
  *
- * This does NOT use eval(). It's a simple recursive-descent parser.
- * Comparison operators return 1 for true, 0 for false.
+ * This does NOT use eval(): parser.ts builds an AST, evaluated below.
+ * Comparison and logical operators return 1 for true, 0 for false.
+ * Invalid formulas produce a red "Formula error" result.
  */
 function evaluateCustomFormula(
   ctx: FormulaContext,
@@ -158,7 +471,7 @@ function evaluateCustomFormula(
   const expr = config.formula ?? '0';
 
   try {
-    const value = parseExpression(expr, ctx);
+    const value = compileFormula(expr).evaluate(ctx);
     const rounded = Math.round(value * 100) / 100;
     return applyThresholds(rounded, `${rounded}`, config, {
       low: 30,
@@ -175,28 +488,149 @@ function evaluateCustomFormula(
   }
 }
 
-// ─── Simple Recursive Descent Parser ────────────────────────────────────────
-// Supports: number literals, context variables, +, -, *, /, parentheses,
-//           ROUND(), ABS(), MIN(), MAX(), IF()
+// ─── Compiled Formulas ──────────────────────────────────────────────────────
+// A formula is parsed once per distinct text and reused for every parent it
+// is evaluated for; an issue event evaluates it once per ancestor.
+
+/** What a formula reads, in order of first use. */
+export interface FormulaDependencies {
+  contextVariables: ContextVariable[];
+  /** Per-descendant variables used inside aggregates (canonical names). */
+  rowVariables: string[];
+  /** Top-level issue fields read through `field("…")`. */
+  fields: string[];
+  /** True when the formula visits individual descendants. */
+  usesAggregates: boolean;
+}
+
+export interface CompiledFormula {
+  source: string;
+  ast: FormulaNode;
+  dependencies: FormulaDependencies;
+  evaluate(ctx: FormulaContext): number;
+}
 
-type TokenStream = { tokens: string[]; pos: number };
+/** Compiled formulas keyed by formula text, oldest first. */
+const compiledFormulas = new Map<string, CompiledFormula>();
+const MAX_COMPILED_FORMULAS = 200;
 
-function tokenize(expr: string): string[] {
-  // Updated regex to handle multi-character operators like >= <= == !=
-  const regex =
-    /\s*((?:\d+\.?\d*)|(?:[a-zA-Z_]\w*)|(?:>=|<=|==|!=)|[+\-*/(),<>=!])\s*/g;
-  const tokens: string[] = [];
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(expr)) !== null) {
-    tokens.push(match[1]);
+/**
+ * Parses `expr` into a reusable compiled formula, or returns the cached one.
+ * Throws a FormulaError for invalid formulas, which are not cached.
+ */
+export function compileFormula(expr: string): CompiledFormula {
+  const cached = compiledFormulas.get(expr);
+  if (cached) return cached;
+
+  const ast = parseFormula(expr);
+  const compiled: CompiledFormula = {
+    source: expr,
+    ast,
+    dependencies: collectDependencies(ast),
+    evaluate: (ctx) => toNumber(evaluate(ast, { ctx })),
+  };
+
+  if (compiledFormulas.size >= MAX_COMPILED_FORMULAS) {
+    compiledFormulas.delete(compiledFormulas.keys().next().value!);
+  }
+  compiledFormulas.set(expr, compiled);
+  return compiled;
+}
+
+/** Empties the compiled formula cache. */
+export function clearFormulaCache(): void {
+  compiledFormulas.clear();
+}
+
+function tryCompile(expr: string): CompiledFormula | null {
+  try {
+    return compileFormula(expr);
+  } catch {
+    return null;
   }
-  return tokens;
 }
 
+function collectDependencies(ast: FormulaNode): FormulaDependencies {
+  const contextVariables = new Set<ContextVariable>();
+  const rowVariables = new Set<string>();
+  const fields = new Set<string>();
+  let usesAggregates = false;
+
+  const visit = (node: FormulaNode): void => {
+    switch (node.kind) {
+      case 'variable':
+        if (node.scope === 'context') contextVariables.add(node.name as ContextVariable);
+        else rowVariables.add(node.name);
+        break;
+      case 'call':
+        if (FUNCTIONS[node.name]?.aggregate) usesAggregates = true;
+        if (node.name === 'FIELD' && node.args[0]?.kind === 'string') {
+          // Only the top-level field is requested; dotted paths read into it
+          fields.add(node.args[0].value.split('.')[0]);
+        }
+        node.args.forEach(visit);
+        break;
+      case 'unary':
+        visit(node.operand);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+    }
+  };
+  visit(ast);
+
+  return {
+    contextVariables: [...contextVariables],
+    rowVariables: [...rowVariables],
+    fields: [...fields],
+    usesAggregates,
+  };
+}
+
+// ─── Evaluator ──────────────────────────────────────────────────────────────
+// Walks the AST from parser.ts. Syntax and name checks already happened at
+// parse time, so evaluation itself cannot fail on a parsed formula.
+
+/**
+ * Values flowing through the evaluator. Strings come from literals and issue
+ * fields; lists from multi-value fields such as labels.
+ */
+type Value = number | string | Value[];
+
+/**
+ * Evaluation scope. `row` is the descendant currently being visited inside
+ * an aggregate function; row variables read from it.
+ */
+type Scope = { ctx: FormulaContext; row?: JiraIssue };
+
+/**
+ * Parses and evaluates `expr`. Throws a FormulaError for invalid formulas;
+ * a blank formula evaluates to 0.
+ */
 export function parseExpression(expr: string, ctx: FormulaContext): number {
-  const stream: TokenStream = { tokens: tokenize(expr), pos: 0 };
-  const result = parseComparison(stream, ctx);
-  return result;
+  return compileFormula(expr).evaluate(ctx);
+}
+
+/**
+ * Context variables referenced by `expr`, in order of first use. Invalid
+ * formulas reference nothing.
+ */
+export function extractContextVariables(expr: string): ContextVariable[] {
+  return [...(tryCompile(expr)?.dependencies.contextVariables ?? [])];
+}
+
+/**
+ * Issue fields a formula reads through `field("…")` or its row variables,
+ * so the traversal can request them from Jira. Invalid formulas reference
+ * nothing.
+ */
+export function extractFieldReferences(expr: string): string[] {
+  const dependencies = tryCompile(expr)?.dependencies;
+  if (!dependencies) return [];
+  const rowFields = dependencies.rowVariables.flatMap((name) => ROW_VARIABLE_FIELDS[name] ?? []);
+  return [...new Set([...dependencies.fields, ...rowFields])];
 }
 
 export function createMockContext(overrides: Partial<FormulaContext> = {}): FormulaContext {
@@ -208,156 +642,239 @@ export function createMockContext(overrides: Partial<FormulaContext> = {}): Form
     undoneCount: 0,
     remainingPoints: 0,
     percentComplete: 0,
+    todoCount: 0,
+    inProgressCount: 0,
+    donePoints: 0,
+    inProgressPoints: 0,
+    percentCompleteByPoints: 0,
+    blockedCount: 0,
+    originalEstimate: 0,
+    timeSpent: 0,
+    remainingEstimate: 0,
+    estimateAccuracy: 0,
     ...overrides,
   };
 }
 
-function peek(s: TokenStream): string | undefined {
-  return s.tokens[s.pos];
-}
-function consume(s: TokenStream): string {
-  return s.tokens[s.pos++];
-}
+function evaluate(node: FormulaNode, scope: Scope): Value {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+      return node.value;
 
-function parseComparison(s: TokenStream, ctx: FormulaContext): number {
-  let left = parseAddSub(s, ctx);
-  
-  while (true) {
-    const token = peek(s);
-    if (!token || !['>', '<', '>=', '<=', '==', '!='].includes(token)) {
-      break;
-    }
-    
-    const op = consume(s);
-    const right = parseAddSub(s, ctx);
-    
-    switch (op) {
-      case '>':
-        left = left > right ? 1 : 0;
-        break;
-      case '<':
-        left = left < right ? 1 : 0;
-        break;
-      case '>=':
-        left = left >= right ? 1 : 0;
-        break;
-      case '<=':
-        left = left <= right ? 1 : 0;
-        break;
-      case '==':
-        left = Math.abs(left - right) < 1e-10 ? 1 : 0; // Use epsilon for float comparison
-        break;
-      case '!=':
-        left = Math.abs(left - right) >= 1e-10 ? 1 : 0;
-        break;
-    }
+    case 'variable':
+      if (node.scope === 'row') {
+        return scope.row ? readRowVariable(scope.row, node.name, scope.ctx) : 0;
+      }
+      return scope.ctx[node.name as ContextVariable];
+
+    case 'unary':
+      return node.op === '-'
+        ? -toNumber(evaluate(node.operand, scope))
+        : isTruthy(evaluate(node.operand, scope)) ? 0 : 1;
+
+    case 'binary':
+      return evaluateBinary(node.op, node.left, node.right, scope);
+
+    case 'call':
+      return evaluateCall(node.name, node.args, scope);
   }
-  
-  return left;
 }
 
-function parseAddSub(s: TokenStream, ctx: FormulaContext): number {
-  let left = parseMulDiv(s, ctx);
-  while (peek(s) === '+' || peek(s) === '-') {
-    const op = consume(s);
-    const right = parseMulDiv(s, ctx);
-    left = op === '+' ? left + right : left - right;
+function evaluateBinary(
+  op: BinaryOperator,
+  leftNode: FormulaNode,
+  rightNode: FormulaNode,
+  scope: Scope,
+): Value {
+  const left = evaluate(leftNode, scope);
+
+  // Short-circuit: the right side is only evaluated when it can matter
+  if (op === 'AND') return isTruthy(left) && isTruthy(evaluate(rightNode, scope)) ? 1 : 0;
+  if (op === 'OR') return isTruthy(left) || isTruthy(evaluate(rightNode, scope)) ? 1 : 0;
+
+  const right = evaluate(rightNode, scope);
+
+  // Strings and lists compare by equality only, ignoring case; a list
+  // equals a value when it contains it
+  if (op === '==') return valuesEqual(left, right) ? 1 : 0;
+  if (op === '!=') return valuesEqual(left, right) ? 0 : 1;
+
+  const l = toNumber(left);
+  const r = toNumber(right);
+  switch (op) {
+    case '+':
+      return l + r;
+    case '-':
+      return l - r;
+    case '*':
+      return l * r;
+    case '/':
+      return r !== 0 ? l / r : 0;
+    case '>':
+      return l > r ? 1 : 0;
+    case '<':
+      return l < r ? 1 : 0;
+    case '>=':
+      return l >= r ? 1 : 0;
+    case '<=':
+      return l <= r ? 1 : 0;
   }
-  return left;
 }
 
-function parseMulDiv(s: TokenStream, ctx: FormulaContext): number {
-  let left = parseUnary(s, ctx);
-  while (peek(s) === '*' || peek(s) === '/') {
-    const op = consume(s);
-    const right = parseUnary(s, ctx);
-    left = op === '*' ? left * right : right !== 0 ? left / right : 0;
+function evaluateCall(name: string, args: FormulaNode[], scope: Scope): Value {
+  switch (name) {
+    case 'IF':
+      // IF(cond, then, else) — cond > 0 means true; only the chosen branch runs
+      return isTruthy(evaluate(args[0], scope))
+        ? evaluate(args[1], scope)
+        : args[2] ? evaluate(args[2], scope) : 0;
+    case 'ROUND':
+      return Math.round(toNumber(evaluate(args[0], scope)));
+    case 'ABS':
+      return Math.abs(toNumber(evaluate(args[0], scope)));
+    case 'MIN':
+      return Math.min(...args.map((a) => toNumber(evaluate(a, scope))));
+    case 'MAX':
+      return Math.max(...args.map((a) => toNumber(evaluate(a, scope))));
+    case 'FIELD':
+      return scope.row ? readField(scope.row, String(evaluate(args[0], scope))) : 0;
+    case 'DEPTH': {
+      // DEPTH(n, expr) — expr over the descendants n levels down only
+      const level = scope.ctx.levels?.[toNumber(evaluate(args[0], scope)) - 1];
+      return evaluate(args[1], { ctx: level ?? createMockContext({ levels: [] }) });
+    }
+    default:
+      return evaluateAggregate(name, args, scope);
   }
-  return left;
 }
 
-function parseUnary(s: TokenStream, ctx: FormulaContext): number {
-  if (peek(s) === '-') {
-    consume(s);
-    return -parseAtom(s, ctx);
+/**
+ * Evaluates the first argument once per descendant, then reduces.
+ *
+ *   COUNT()            number of descendants
+ *   COUNT(cond)        descendants where cond > 0 (COUNTIF is an alias)
+ *   SUM/AVG/MEDIAN(x)  over x evaluated per descendant
+ *   PERCENTILE(x, p)   p-th percentile (0–100), linear interpolation
+ */
+function evaluateAggregate(name: string, args: FormulaNode[], scope: Scope): Value {
+  const rows = scope.ctx.children;
+  const values = rows.map((row) =>
+    args[0] ? toNumber(evaluate(args[0], { ...scope, row })) : 1,
+  );
+
+  switch (name) {
+    case 'COUNT':
+    case 'COUNTIF':
+      return values.filter((v) => v > 0).length;
+    case 'SUM':
+      return values.reduce((sum, v) => sum + v, 0);
+    case 'AVG':
+      return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+    case 'MEDIAN':
+      return percentile(values, 50);
+    case 'PERCENTILE':
+      return percentile(values, toNumber(evaluate(args[1], scope)));
+    default:
+      return 0;
   }
-  return parseAtom(s, ctx);
 }
 
-function parseAtom(s: TokenStream, ctx: FormulaContext): number {
-  const token = peek(s);
-
-  if (!token) return 0;
+/**
+ * Issue fields row variables read beyond those every child search requests
+ * (status, issue type, story points and time tracking).
+ */
+const ROW_VARIABLE_FIELDS: Record<string, string[]> = {
+  labels: ['labels'],
+};
 
-  // Number literal
-  if (/^\d/.test(token)) {
-    consume(s);
-    return parseFloat(token);
+/**
+ * Per-descendant variables available inside aggregates, by the canonical
+ * names in parser.ts ROW_VARIABLES.
+ */
+function readRowVariable(row: JiraIssue, name: string, ctx: FormulaContext): Value {
+  switch (name) {
+    case 'key':
+      return row.key;
+    case 'status':
+      return row.fields?.status?.name ?? '';
+    case 'statusCategory':
+      return row.fields?.status?.statusCategory?.key ?? '';
+    case 'issuetype':
+      return row.fields?.issuetype?.name ?? '';
+    case 'labels':
+      return row.fields?.labels ?? [];
+    case 'storyPoints':
+      return getStoryPoints(row, ctx.storyPointsField || DEFAULT_STORY_POINTS_FIELD);
+    case 'done': {
+      const facts = snapshotIssue(row, [], ctx.statusSemantics?.flagField);
+      return classifyStatus(facts, ctx.statusSemantics) === 'done' ? 1 : 0;
+    }
+    case 'originalEstimate':
+      return toHours(getTimeTracking(row).originalEstimate);
+    case 'timeSpent':
+      return toHours(getTimeTracking(row).timeSpent);
+    case 'remainingEstimate':
+      return toHours(getTimeTracking(row).remainingEstimate);
+    default:
+      return 0;
   }
+}
+
+/**
+ * Issue field as a parser value. `name` may be a dotted path such as
+ * `status.statusCategory.key`.
+ */
+function readField(row: JiraIssue, name: string): Value {
+  const raw = name
+    .split('.')
+    .reduce<any>((value, part) => (value == null ? undefined : value[part]), row.fields);
+  return toValue(raw);
+}
 
-  // Parenthesized expression
-  if (token === '(') {
-    consume(s); // (
-    const val = parseComparison(s, ctx);
-    consume(s); // )
-    return val;
+/**
+ * Numbers and strings as-is, arrays element-wise, option / user / status
+ * objects by their value or name, anything else as 0.
+ */
+function toValue(raw: any): Value {
+  if (typeof raw === 'number' || typeof raw === 'string') return raw;
+  if (typeof raw === 'boolean') return raw ? 1 : 0;
+  if (Array.isArray(raw)) return raw.map(toValue);
+  if (raw && typeof raw === 'object') {
+    const label = raw.value ?? raw.name ?? raw.displayName ?? raw.key;
+    if (typeof label === 'string' || typeof label === 'number') return label;
   }
+  return 0;
+}
 
-  // Built-in functions
-  const upperToken = token.toUpperCase();
-  if (['ROUND', 'ABS', 'MIN', 'MAX', 'IF'].includes(upperToken)) {
-    consume(s); // function name
-    consume(s); // (
-    const args: number[] = [];
-    args.push(parseComparison(s, ctx));
-    while (peek(s) === ',') {
-      consume(s); // ,
-      args.push(parseComparison(s, ctx));
-    }
-    consume(s); // )
-
-    switch (upperToken) {
-      case 'ROUND':
-        return Math.round(args[0]);
-      case 'ABS':
-        return Math.abs(args[0]);
-      case 'MIN':
-        return Math.min(...args);
-      case 'MAX':
-        return Math.max(...args);
-      case 'IF':
-        // IF(cond, then, else) — cond > 0 means true
-        return args[0] > 0 ? (args[1] ?? 0) : (args[2] ?? 0);
-      default:
-        return 0;
-    }
+function valuesEqual(left: Value, right: Value): boolean {
+  if (Array.isArray(left)) return left.some((item) => valuesEqual(item, right));
+  if (Array.isArray(right)) return right.some((item) => valuesEqual(left, item));
+  if (typeof left === 'number' && typeof right === 'number') {
+    return Math.abs(left - right) < 1e-10;
   }
+  return String(left).toLowerCase() === String(right).toLowerCase();
+}
 
-  // Context variable
-  const varMap: Record<string, number> = {
-    totalStoryPoints: ctx.totalStoryPoints,
-    totalstorypoints: ctx.totalStoryPoints,
-    doneCount: ctx.doneCount,
-    donecount: ctx.doneCount,
-    undoneCount: ctx.undoneCount,
-    undonecount: ctx.undoneCount,
-    childCount: ctx.childCount,
-    childcount: ctx.childCount,
-    remainingPoints: ctx.remainingPoints,
-    remainingpoints: ctx.remainingPoints,
-    percentComplete: ctx.percentComplete,
-    percentcomplete: ctx.percentComplete,
-  };
+function isTruthy(value: Value): boolean {
+  return toNumber(value) > 0;
+}
 
-  const key = token.toLowerCase?.() ?? token;
-  if (key in varMap) {
-    consume(s);
-    return varMap[key];
-  }
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
 
-  // Unknown token — skip
-  consume(s);
-  return 0;
+/** Lists count as their length (so COUNT-like tests work on labels). */
+function toNumber(value: Value): number {
+  if (typeof value === 'number') return value;
+  if (Array.isArray(value)) return value.length;
+  const n = parseFloat(value);
+  return Number.isNaN(n) ? 0 : n;
 }
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
@@ -367,6 +884,124 @@ function getStoryPoints(issue: JiraIssue, storyPointsField: string): number {
   return typeof sp === 'number' ? sp : 0;
 }
 
+/**
+ * Converts three weights into whole percentages that sum to 100.
+ * Rounding drift is absorbed by the to-do segment.
+ */
+function toSegments(todo: number, inProgress: number, done: number): ProgressSegments {
+  const total = todo + inProgress + done;
+  if (total <= 0) return { todo: 100, inProgress: 0, done: 0 };
+  const donePct = Math.round((done / total) * 100);
+  const inProgressPct = Math.min(Math.round((inProgress / total) * 100), 100 - donePct);
+  return {
+    todo: 100 - donePct - inProgressPct,
+    inProgress: inProgressPct,
+    done: donePct,
+  };
+}
+
+/** Colour for "higher is better" percentages. */
+function progressColor(pct: number): MetricResult['color'] {
+  return pct === 100 ? 'green' : pct >= 50 ? 'yellow' : 'red';
+}
+
+/**
+ * Time tracking in seconds. Prefers the flat `time*` fields and falls back
+ * to the `timetracking` object; unset values count as 0.
+ */
+function getTimeTracking(issue: JiraIssue): {
+  originalEstimate: number;
+  timeSpent: number;
+  remainingEstimate: number;
+} {
+  const f = issue.fields ?? {};
+  const tt = f.timetracking ?? {};
+  return {
+    originalEstimate: f.timeoriginalestimate ?? tt.originalEstimateSeconds ?? 0,
+    timeSpent: f.timespent ?? tt.timeSpentSeconds ?? 0,
+    remainingEstimate: f.timeestimate ?? tt.remainingEstimateSeconds ?? 0,
+  };
+}
+
+function toHours(seconds: number): number {
+  return Math.round((seconds / 3600) * 100) / 100;
+}
+
+/**
+ * Formats hours as a Jira-style duration, e.g. 28 → `3d 4h` with an 8-hour
+ * working day. Minutes are shown only below one hour.
+ */
+export function formatDuration(hours: number, hoursPerDay = 8): string {
+  const totalMinutes = Math.round(hours * 60);
+  if (totalMinutes <= 0) return '0h';
+
+  const minutesPerDay = hoursPerDay * 60;
+  const days = Math.floor(totalMinutes / minutesPerDay);
+  const h = Math.floor((totalMinutes % minutesPerDay) / 60);
+  const m = totalMinutes % 60;
+
+  const parts: string[] = [];
+  if (days) parts.push(`${days}d`);
+  if (h) parts.push(`${h}h`);
+  if (m && !days && !h) parts.push(`${m}m`);
+  return parts.join(' ') || '0h';
+}
+
+/**
+ * Projected completion date with its confidence range, e.g.
+ * `~12 Mar (8 Mar – 20 Mar)`. Green when the whole range lands before the
+ * parent's due date, yellow when only the projection does, red otherwise.
+ * Without a due date the thresholds apply to the days left.
+ */
+function forecastResult(
+  ctx: FormulaContext,
+  config: FieldConfig,
+  timeline: ForecastTimeline = { samples: [] },
+): MetricResult {
+  const time = timeline.now ?? Date.now();
+  const samples: BurnSample[] = [
+    ...timeline.samples,
+    { at: new Date(time).toISOString(), remainingPoints: ctx.remainingPoints, doneCount: ctx.doneCount },
+  ];
+  const due = timeline.dueDate ? Date.parse(`${timeline.dueDate}T23:59:59Z`) : null;
+  const forecast = forecastCompletion(samples, ctx.undoneCount, time);
+
+  if (forecast === 'complete') {
+    return { value: 0, label: 'Complete', color: 'green', updatedAt: now() };
+  }
+  if (forecast === 'insufficientHistory') {
+    return { value: 0, label: 'Not enough history', color: 'grey', updatedAt: now() };
+  }
+  if (forecast === 'noProgress') {
+    return { value: 0, label: 'No recent progress', color: due === null ? 'grey' : 'red', updatedAt: now() };
+  }
+
+  const days = Math.ceil((forecast.date - time) / DAY_MS);
+  const earliest = formatDate(forecast.earliest, time);
+  const latest = forecast.latest === null ? '?' : formatDate(forecast.latest, time);
+  const range = earliest === latest ? '' : ` (${earliest} – ${latest})`;
+  const label = `~${formatDate(forecast.date, time)}${range}`;
+  if (due === null) return applyThresholds(days, label, config, { low: 30, high: 90 });
+
+  let color: MetricResult['color'];
+  if (forecast.latest !== null && forecast.latest <= due) color = 'green';
+  else if (forecast.date <= due) color = 'yellow';
+  else color = 'red';
+  return { value: days, label, color, updatedAt: now() };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** `12 Mar`, with the year when it isn't the year of `reference`. */
+function formatDate(time: number, reference: number): string {
+  const date = new Date(time);
+  const label = `${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]}`;
+  return date.getUTCFullYear() === new Date(reference).getUTCFullYear()
+    ? label
+    : `${label} ${date.getUTCFullYear()}`;
+}
+
 function applyThresholds(
   value: number,
   label: string,
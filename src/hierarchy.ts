@@ -1,13 +1,33 @@
 /**
  * hierarchy.ts — Traverses parent → child → grandchild relationships
  * using JQL and the Jira REST API via the Forge bridge.
+ *
+ * Which relationships count as parent → child is configurable: the native
+ * `parent` field, custom parent fields such as "Parent Link", and issue
+ * links of chosen types (see TraversalStrategy).
  */
 import api, { route } from '@forge/api';
-import type { JiraIssue, JiraSearchResponse } from './types';
+import type {
+  ApiBudget,
+  DescendantSet,
+  IssueScope,
+  JiraIssue,
+  JiraSearchResponse,
+  TraversalStrategy,
+  TruncationReason,
+} from './types';
 
 // ─── Configuration ──────────────────────────────────────────────────────────
 const PAGE_SIZE = 100; // Jira search max per page
-const DEFAULT_MAX_DEPTH = 3; // parent → child → grandchild
+const MAX_RETRIES = 3; // per request, for rate limits and transient failures
+const BASE_BACKOFF_MS = 500; // doubled on each retry without Retry-After
+const MAX_BACKOFF_MS = 10000; // longest single wait, within the invocation limit
+const MAX_RETRY_WAIT_MS = 8000; // all waits of one request together
+const CHUNK_SIZE = 50; // parent keys per `parent in (…)` search
+const CONCURRENCY = 4; // chunk searches in flight at once
+const MAX_COUNTS = 3; // cut-short searches counted to estimate what was missed
+export const DEFAULT_MAX_DEPTH = 3; // parent → child → grandchild
+export const DEFAULT_API_BUDGET = 200; // Jira calls per invocation
 
 /**
  * Default story-point field name.
@@ -16,42 +36,192 @@ const DEFAULT_MAX_DEPTH = 3; // parent → child → grandchild
  */
 export const DEFAULT_STORY_POINTS_FIELD = 'story_points';
 
+/** Follow the native `parent` field only. */
+export const DEFAULT_TRAVERSAL: TraversalStrategy[] = [{ kind: 'parent' }];
+
+/** Settings shared by every level of one descendant traversal. */
+interface Traversal {
+  fields: string;
+  filterJql: string;
+  strategies: TraversalStrategy[];
+  budget: ApiBudget;
+  outcome: {
+    truncated: Set<TruncationReason>;
+    lastError?: string;
+    /** Searches that stopped before their last page, and how many issues they returned. */
+    cutShort: Array<{ jql: string; fetched: number }>;
+  };
+}
+
+/** An entry of an issue's `issuelinks` field. */
+interface IssueLink {
+  type?: { name: string };
+  inwardIssue?: { key: string };
+  outwardIssue?: { key: string };
+}
+
 // ─── Public API ─────────────────────────────────────────────────────────────
 
 /**
- * Returns every descendant of `parentKey` up to `maxDepth` levels deep.
+ * Returns every descendant of `parentKey` up to `maxDepth` levels deep,
+ * each tagged with its `depth` and the `parentKey` it was found under,
+ * level by level (all children, then all grandchildren, …).
  * Depth 1 = direct children, depth 2 = + grandchildren, etc.
+ * `extraFields` are requested in addition to the standard set (e.g. fields
+ * read by a custom formula). `filterJql` is ANDed with every child search,
+ * so an issue it rejects is skipped along with its own descendants.
+ * Children are found through each of `strategies`; an issue reached twice
+ * is counted once.
+ *
+ * Each level costs one search per CHUNK_SIZE parents (plus further pages),
+ * not one per parent. Every call is taken from `budget`, which is shared by
+ * everything the current invocation computes; once it runs out the
+ * traversal stops and returns what it found so far, with `budget.exhausted`
+ * set.
+ *
+ * The result says why descendants may be missing: issues below `maxDepth`
+ * (checked with one more single-result search), the budget, or searches
+ * that kept failing. When searches were cut short, Jira is asked how many
+ * issues they match to estimate the total.
  */
 export async function getDescendants(
   parentKey: string,
+  budget: ApiBudget,
   maxDepth: number = DEFAULT_MAX_DEPTH,
   storyPointsField: string = DEFAULT_STORY_POINTS_FIELD,
-): Promise<JiraIssue[]> {
-  const all: JiraIssue[] = [];
-  await collectDescendants(parentKey, 1, maxDepth, all, new Set(), storyPointsField);
-  return all;
+  extraFields: string[] = [],
+  filterJql = '',
+  strategies: TraversalStrategy[] = DEFAULT_TRAVERSAL,
+): Promise<DescendantSet> {
+  const issues: JiraIssue[] = [];
+  const traversal: Traversal = {
+    fields: buildFieldList(storyPointsField, extraFields, strategies),
+    filterJql,
+    strategies,
+    budget,
+    outcome: { truncated: new Set(), cutShort: [] },
+  };
+  await collectDescendants(parentKey, maxDepth, issues, traversal);
+
+  const { truncated, lastError, cutShort } = traversal.outcome;
+  if (truncated.has('budget')) {
+    console.warn(`API budget used up while traversing ${parentKey}; ${issues.length} descendants found`);
+  }
+  return {
+    issues,
+    truncated: [...truncated],
+    expected: cutShort.length > 0 ? await estimateTotal(issues.length, cutShort) : undefined,
+    lastError,
+  };
+}
+
+/**
+ * A fresh budget of `calls` Jira REST calls, created once per invocation
+ * (trigger, queue consumer or resolver) and passed to every recompute it
+ * runs.
+ */
+export function createApiBudget(calls: number = DEFAULT_API_BUDGET): ApiBudget {
+  return { remaining: calls, exhausted: false };
+}
+
+/**
+ * True when the budget ran out during work that started with `available`
+ * calls left, so its results may be partial and a fresh budget could do it
+ * whole. Work that had a full budget to itself would only run out again.
+ */
+export function cutShortByBudget(budget: ApiBudget, available: number): boolean {
+  return budget.exhausted && available < DEFAULT_API_BUDGET;
 }
 
 /**
  * Given an issue key, walk up to find its top-most ancestor within
  * `maxDepth` levels. Returns an array of ancestor keys (closest first)
  * that should all have their metrics recomputed.
+ *
+ * With links or custom parent fields an issue can have several parents;
+ * all of them are walked. Per-strategy depth limits aren't applied on the
+ * way up, so this may include ancestors whose rollups don't reach the issue.
  */
 export async function getAncestorKeys(
   issueKey: string,
   maxDepth: number = DEFAULT_MAX_DEPTH,
+  strategies: TraversalStrategy[] = DEFAULT_TRAVERSAL,
 ): Promise<string[]> {
   const ancestors: string[] = [];
-  let currentKey: string | null = issueKey;
+  const visited = new Set([issueKey]);
+  let level = [issueKey];
 
-  for (let i = 0; i < maxDepth && currentKey; i++) {
-    const parentKey = await getParentKey(currentKey);
-    if (!parentKey) break;
-    ancestors.push(parentKey);
-    currentKey = parentKey;
+  for (let i = 0; i < maxDepth && level.length > 0; i++) {
+    const next: string[] = [];
+    for (const key of level) {
+      const parentKeys = isNativeOnly(strategies)
+        ? [await getParentKey(key)].filter((k): k is string => !!k)
+        : await getParentKeys(key, strategies);
+      for (const parentKey of parentKeys) {
+        if (visited.has(parentKey)) continue; // prevent cycles
+        visited.add(parentKey);
+        ancestors.push(parentKey);
+        next.push(parentKey);
+      }
+    }
+    level = next;
   }
 
-  return ancestors; // closest parent first
+  return ancestors; // closest parents first
+}
+
+/**
+ * Every issue `issueKey` is a child of under `strategies`. Returns an
+ * empty list if the issue cannot be read.
+ */
+export async function getParentKeys(
+  issueKey: string,
+  strategies: TraversalStrategy[] = DEFAULT_TRAVERSAL,
+): Promise<string[]> {
+  const fields = new Set(['parent']);
+  for (const strategy of strategies) {
+    if (strategy.kind === 'parentLink') fields.add(strategy.field);
+    if (strategy.kind === 'issueLink') fields.add('issuelinks');
+  }
+
+  try {
+    const res = await api.asApp().requestJira(
+      route`/rest/api/3/issue/${issueKey}?fields=${[...fields].join(',')}`,
+      { method: 'GET' },
+    );
+    if (!res.ok) return [];
+    const data = await res.json();
+    const keys = strategies.flatMap((strategy) => parentsVia(strategy, data.fields ?? {}));
+    return [...new Set(keys)];
+  } catch {
+    return [];
+  }
+}
+
+/** True when only the native `parent` field is followed. */
+export function isNativeOnly(strategies: TraversalStrategy[]): boolean {
+  return strategies.every((strategy) => strategy.kind === 'parent');
+}
+
+/**
+ * The site's issue link types, for picking link strategies. Empty if they
+ * cannot be read.
+ */
+export async function getIssueLinkTypes(): Promise<
+  Array<{ name: string; inward: string; outward: string }>
+> {
+  try {
+    const res = await api.asApp().requestJira(route`/rest/api/3/issueLinkType`, { method: 'GET' });
+    if (!res.ok) return [];
+    const data = await res.json();
+    return (data.issueLinkTypes ?? []).map(({ name, inward, outward }: any) => ({
+      name,
+      inward,
+      outward,
+    }));
+  } catch {
+    return [];
+  }
 }
 
 /**
@@ -71,66 +241,536 @@ export async function getParentKey(issueKey: string): Promise<string | null> {
   }
 }
 
+/**
+ * Fetch the project key and issue type used to resolve scoped config
+ * overrides, along with the issue's parent and due date. Returns an empty
+ * scope and no parent if the issue cannot be read.
+ */
+export async function getIssueHeader(
+  issueKey: string,
+): Promise<{ scope: IssueScope; parentKey: string | null; dueDate: string | null }> {
+  try {
+    const res = await api.asApp().requestJira(
+      route`/rest/api/3/issue/${issueKey}?fields=project,issuetype,parent,duedate`,
+      { method: 'GET' },
+    );
+    if (!res.ok) return { scope: {}, parentKey: null, dueDate: null };
+    const data = await res.json();
+    return {
+      scope: {
+        projectKey: data.fields?.project?.key,
+        issueType: data.fields?.issuetype?.name,
+      },
+      parentKey: data.fields?.parent?.key ?? null,
+      dueDate: data.fields?.duedate ?? null,
+    };
+  } catch {
+    return { scope: {}, parentKey: null, dueDate: null };
+  }
+}
+
+/**
+ * One page of a JQL search with the default search client: the first page,
+ * or the one after `pageToken`. Throws a SearchError if the search fails.
+ */
+export async function searchIssues(
+  jql: string,
+  fields: string,
+  pageToken?: string,
+  maxResults = PAGE_SIZE,
+): Promise<JiraSearchResponse> {
+  return defaultSearchClient.search(jql, fields, pageToken, maxResults);
+}
+
+/**
+ * Jira's estimate of how many issues match `jql`, or null if it can't tell.
+ */
+export async function countIssues(jql: string): Promise<number | null> {
+  return defaultSearchClient.count(jql);
+}
+
+// ─── Search Client ──────────────────────────────────────────────────────────
+
+/**
+ * A failed search. `transient` failures (rate limits, server errors, network
+ * errors) may succeed later and are retried before they are thrown;
+ * permanent ones (invalid JQL, missing permissions) never will.
+ */
+export class SearchError extends Error {
+  readonly status: number | undefined;
+  readonly transient: boolean;
+
+  constructor(message: string, status: number | undefined, transient: boolean) {
+    super(message);
+    this.name = 'SearchError';
+    this.status = status;
+    this.transient = transient;
+  }
+}
+
+/** Runs JQL searches against the enhanced search endpoint. */
+export interface SearchClient {
+  /** One page of issues matching `jql`, after `pageToken` when given. */
+  search(jql: string, fields: string, pageToken?: string, maxResults?: number): Promise<JiraSearchResponse>;
+  /** Jira's estimate of how many issues match `jql`, or null if it can't tell. */
+  count(jql: string): Promise<number | null>;
+}
+
+/**
+ * A search client using `/rest/api/3/search/jql`, which pages with
+ * `nextPageToken` and reports no total. Rate-limited (429) requests wait
+ * for `Retry-After`; other transient failures back off exponentially. A
+ * wait is cut to what is left of MAX_RETRY_WAIT_MS, so retries can't use up
+ * the invocation. Both give up after MAX_RETRIES, or as a transient failure
+ * once a request has waited MAX_RETRY_WAIT_MS. `sleep` is replaceable for
+ * tests.
+ */
+export function createSearchClient(
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+): SearchClient {
+  const post = async (path: ReturnType<typeof route>, body: object, jql: string) => {
+    let waited = 0;
+    const wait = async (ms: number, failure: string, status?: number) => {
+      const delay = Math.min(ms, MAX_RETRY_WAIT_MS - waited);
+      if (delay <= 0 && ms > 0) {
+        throw new SearchError(`${failure}, still failing after ${waited} ms of retries: ${jql}`, status, true);
+      }
+      waited += delay;
+      await sleep(delay);
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      let res;
+      try {
+        res = await api.asApp().requestJira(path, {
+          method: 'POST',
+          headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+      } catch (err: any) {
+        if (attempt >= MAX_RETRIES) {
+          throw new SearchError(`JQL search failed: ${err?.message ?? err}: ${jql}`, undefined, true);
+        }
+        await wait(backoff(attempt), `JQL search failed: ${err?.message ?? err}`);
+        continue;
+      }
+      if (res.ok) return res.json();
+
+      const transient = isTransient(res.status);
+      if (!transient || attempt >= MAX_RETRIES) {
+        throw new SearchError(`JQL search failed (${res.status}): ${jql}`, res.status, transient);
+      }
+      await wait(
+        retryAfter(res.headers?.get('Retry-After')) ?? backoff(attempt),
+        `JQL search failed (${res.status})`,
+        res.status,
+      );
+    }
+  };
+
+  return {
+    async search(jql, fields, pageToken, maxResults = PAGE_SIZE) {
+      const data = await post(
+        route`/rest/api/3/search/jql`,
+        { jql, fields: fields.split(','), maxResults, ...(pageToken ? { nextPageToken: pageToken } : {}) },
+        jql,
+      );
+      return { issues: data.issues ?? [], nextPageToken: data.nextPageToken };
+    },
+    async count(jql) {
+      try {
+        const data = await post(route`/rest/api/3/search/approximate-count`, { jql }, jql);
+        return typeof data.count === 'number' ? data.count : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+const defaultSearchClient = createSearchClient();
+
+/** Rate limits and server-side failures; anything else won't change on retry. */
+function isTransient(status: number): boolean {
+  return [429, 500, 502, 503, 504].includes(status);
+}
+
+/** `Retry-After` in seconds or as an HTTP date, capped; null when absent or unreadable. */
+function retryAfter(header: string | null | undefined): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_BACKOFF_MS) : null;
+}
+
+function backoff(attempt: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+}
+
 // ─── Internals ──────────────────────────────────────────────────────────────
 
+/**
+ * Breadth-first walk from `rootKey`: each level's children are searched for
+ * all of the previous level's issues at once. The visited set cuts cycles
+ * and keeps an issue reached twice at the first depth it was found. Marks
+ * the traversal truncated by depth when the last level has children.
+ */
 async function collectDescendants(
-  parentKey: string,
-  currentDepth: number,
+  rootKey: string,
   maxDepth: number,
   accumulator: JiraIssue[],
-  visited: Set<string>,
-  storyPointsField: string,
+  traversal: Traversal,
 ): Promise<void> {
-  if (currentDepth > maxDepth) return;
-  if (visited.has(parentKey)) return; // prevent cycles
-  visited.add(parentKey);
+  const visited = new Set([rootKey]);
+  // Each frontier issue with its links, once known
+  let frontier = new Map<string, IssueLink[] | undefined>([[rootKey, undefined]]);
 
-  const children = await fetchChildren(parentKey, storyPointsField);
+  for (let depth = 1; depth <= maxDepth && frontier.size > 0; depth++) {
+    const children = await fetchLevel(frontier, depth, traversal);
+    const next = new Map<string, IssueLink[] | undefined>();
+    for (const child of children) {
+      if (visited.has(child.key)) continue; // prevent cycles
+      visited.add(child.key);
+      accumulator.push(child);
+      next.set(child.key, child.fields?.issuelinks);
+    }
+    frontier = next;
+  }
 
-  for (const child of children) {
-    if (visited.has(child.key)) continue;
-    accumulator.push(child);
-    // Recurse for grandchildren etc.
-    await collectDescendants(child.key, currentDepth + 1, maxDepth, accumulator, visited, storyPointsField);
+  if (frontier.size > 0 && (await hasChildren(frontier, maxDepth + 1, visited, traversal))) {
+    traversal.outcome.truncated.add('depth');
   }
 }
 
 /**
- * Paginated JQL search for direct children of a given parent key.
+ * Comma-separated `fields` parameter for the child search, with the fields
+ * the strategies need to tell which parent each child belongs to.
  */
-async function fetchChildren(parentKey: string, storyPointsField: string): Promise<JiraIssue[]> {
-  const issues: JiraIssue[] = [];
-  let startAt = 0;
-  let total = Infinity;
-
+function buildFieldList(
+  storyPointsField: string,
+  extraFields: string[],
+  strategies: TraversalStrategy[],
+): string {
   const fields = [
     'summary',
     'status',
     'issuetype',
     'parent',
     storyPointsField,
-    // Add additional custom field IDs here as needed:
-    // 'customfield_10016',  // example: story points
-    // 'timetracking',       // for logged time
-  ].join(',');
+    'timetracking',
+    'timeoriginalestimate',
+    'timespent',
+    'timeestimate',
+    ...extraFields,
+  ];
+  for (const strategy of strategies) {
+    if (strategy.kind === 'parentLink') fields.push(strategy.field);
+    if (strategy.kind === 'issueLink') fields.push('issuelinks');
+  }
+  return [...new Set(fields)].join(',');
+}
 
-  while (startAt < total) {
-    const jql = `parent = "${parentKey}" ORDER BY created ASC`;
-    const res = await api.asApp().requestJira(
-      route`/rest/api/3/search?jql=${jql}&startAt=${startAt}&maxResults=${PAGE_SIZE}&fields=${fields}`,
-      { method: 'GET' },
-    );
+/**
+ * Children at `depth` of every `parents` issue, through the strategies
+ * followed at that depth, tagged with their depth and parent. Parents are
+ * searched CHUNK_SIZE at a time, CONCURRENCY chunks at once; results keep
+ * the order of `parents`.
+ */
+async function fetchLevel(
+  parents: Map<string, IssueLink[] | undefined>,
+  depth: number,
+  traversal: Traversal,
+): Promise<JiraIssue[]> {
+  const active = activeAt(traversal.strategies, depth);
+  if (active.length === 0) return [];
+  const linkParents = await resolveLinks(parents, active, traversal);
+
+  const chunks = chunk([...parents.keys()], CHUNK_SIZE);
+  const levels = await mapConcurrently(chunks, CONCURRENCY, async (keys) => {
+    const children = await searchChildren(keys, active, linkParents, traversal);
+    const tagged: JiraIssue[] = [];
+    for (const child of children) {
+      const parentKey = parentOf(child, new Set(keys), active, linkParents);
+      // Guessing would credit it, and its subtree, to the wrong parent
+      if (!parentKey) {
+        console.warn(`Skipping ${child.key}: none of its parent fields point at ${keys.join(', ')}`);
+        continue;
+      }
+      tagged.push({ ...child, depth, parentKey });
+    }
+    return tagged;
+  });
+  return levels.flat();
+}
+
+/**
+ * Paginated JQL search for the children of `parentKeys`, one clause per
+ * strategy ORed together and narrowed by the traversal's filter if set.
+ * Stops early, keeping what it has and noting why in the traversal's
+ * outcome, if the budget runs out or a page still fails after retries. A
+ * search Jira rejects outright (e.g. the filter's JQL is invalid) throws,
+ * since every other chunk would fail the same way.
+ */
+async function searchChildren(
+  parentKeys: string[],
+  strategies: TraversalStrategy[],
+  linkParents: Map<string, string>,
+  traversal: Traversal,
+): Promise<JiraIssue[]> {
+  const clauses = childClauses(parentKeys, strategies, linkParents);
+  if (clauses.length === 0) return [];
 
-    if (!res.ok) {
-      console.error(`JQL search failed for parent=${parentKey}: ${res.status}`);
+  const issues: JiraIssue[] = [];
+  const jql = childJql(clauses, traversal.filterJql);
+  const { outcome } = traversal;
+  let pageToken: string | undefined;
+
+  do {
+    if (!spend(traversal.budget)) {
+      outcome.truncated.add('budget');
+      outcome.cutShort.push({ jql, fetched: issues.length });
+      break;
+    }
+    let data: JiraSearchResponse;
+    try {
+      data = await searchIssues(`${jql} ORDER BY created ASC`, traversal.fields, pageToken);
+    } catch (err) {
+      if (!(err instanceof SearchError) || !err.transient) throw err;
+      console.error(`JQL search still failing after retries for parents ${parentKeys.join(', ')}:`, err);
+      outcome.truncated.add('error');
+      outcome.lastError = err.message;
+      outcome.cutShort.push({ jql, fetched: issues.length });
       break;
     }
 
-    const data: JiraSearchResponse = await res.json();
-    total = data.total;
     issues.push(...data.issues);
-    startAt += PAGE_SIZE;
-  }
+    pageToken = data.nextPageToken;
+  } while (pageToken);
 
   return issues;
 }
+
+/**
+ * True when any of `parents` has a child at `depth` that wasn't visited yet.
+ * One single-result search per chunk of parents, until one finds a child.
+ */
+async function hasChildren(
+  parents: Map<string, IssueLink[] | undefined>,
+  depth: number,
+  visited: Set<string>,
+  traversal: Traversal,
+): Promise<boolean> {
+  const active = activeAt(traversal.strategies, depth);
+  if (active.length === 0) return false;
+  const linkParents = await resolveLinks(parents, active, traversal);
+  for (const key of visited) linkParents.delete(key);
+
+  for (const keys of chunk([...parents.keys()], CHUNK_SIZE)) {
+    const clauses = childClauses(keys, active, linkParents);
+    if (clauses.length === 0) continue;
+    if (!spend(traversal.budget)) return false;
+    try {
+      const page = await searchIssues(childJql(clauses, traversal.filterJql), 'key', undefined, 1);
+      if (page.issues.length > 0) return true;
+    } catch (err) {
+      console.warn('Could not check for issues below the depth limit:', err);
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Jira's estimate of every descendant: the `found` ones plus what the
+ * cut-short searches would still have returned. Undefined when there are
+ * too many of those to count, or Jira can't say. The counts aren't taken
+ * from the budget, which has usually run out by now.
+ */
+async function estimateTotal(
+  found: number,
+  cutShort: Array<{ jql: string; fetched: number }>,
+): Promise<number | undefined> {
+  if (cutShort.length > MAX_COUNTS) return undefined;
+  let missing = 0;
+  for (const { jql, fetched } of cutShort) {
+    const count = await countIssues(jql);
+    if (count === null) return undefined;
+    missing += Math.max(count - fetched, 0);
+  }
+  return found + missing;
+}
+
+/** The strategies followed at `depth`. */
+function activeAt(strategies: TraversalStrategy[], depth: number): TraversalStrategy[] {
+  return strategies.filter((s) => s.maxDepth === undefined || depth <= s.maxDepth);
+}
+
+/**
+ * Child key → parent key for the children `parents` have through the link
+ * strategies. Links are read with each issue; only the root's are fetched.
+ */
+async function resolveLinks(
+  parents: Map<string, IssueLink[] | undefined>,
+  strategies: TraversalStrategy[],
+  traversal: Traversal,
+): Promise<Map<string, string>> {
+  const linkParents = new Map<string, string>();
+  for (const strategy of strategies) {
+    if (strategy.kind !== 'issueLink') continue;
+    for (const [key, links] of parents) {
+      const known = links ?? (await fetchIssueLinks(key, traversal));
+      parents.set(key, known);
+      for (const child of linkedKeys(known, strategy.linkType, strategy.direction)) {
+        if (!linkParents.has(child)) linkParents.set(child, key);
+      }
+    }
+  }
+  return linkParents;
+}
+
+/** The child search without its ORDER BY, which the count endpoint doesn't take. */
+function childJql(clauses: string[], filterJql: string): string {
+  const children = clauses.length === 1 ? clauses[0] : `(${clauses.join(' OR ')})`;
+  return filterJql ? `${children} AND ${filterJql}` : children;
+}
+
+/**
+ * One JQL clause per strategy: `parent in (…)`, `cf[N] in (…)`, and for
+ * links the keys linked from any of `parentKeys`.
+ */
+function childClauses(
+  parentKeys: string[],
+  strategies: TraversalStrategy[],
+  linkParents: Map<string, string>,
+): string[] {
+  const parents = new Set(parentKeys);
+  const keys = quoteKeys(parentKeys);
+  const clauses: string[] = [];
+
+  for (const strategy of strategies) {
+    if (strategy.kind === 'parent') clauses.push(`parent in (${keys})`);
+    if (strategy.kind === 'parentLink') clauses.push(`${jqlField(strategy.field)} in (${keys})`);
+  }
+  const linked = [...linkParents].filter(([, parent]) => parents.has(parent)).map(([key]) => key);
+  if (linked.length > 0) clauses.push(`key in (${quoteKeys(linked)})`);
+  return [...new Set(clauses)];
+}
+
+/** Which of `parents` a child found by a batched search belongs to. */
+function parentOf(
+  child: JiraIssue,
+  parents: Set<string>,
+  strategies: TraversalStrategy[],
+  linkParents: Map<string, string>,
+): string | undefined {
+  for (const strategy of strategies) {
+    const found =
+      strategy.kind === 'issueLink'
+        ? [linkParents.get(child.key)]
+        : parentsVia(strategy, child.fields ?? {});
+    const parent = found.find((key) => key !== undefined && parents.has(key));
+    if (parent) return parent;
+  }
+  return undefined;
+}
+
+/**
+ * Takes one call from the budget; false once it is used up. It is marked
+ * exhausted as soon as the last call is taken, so callers checking between
+ * recomputes don't start one that can't make a single call.
+ */
+function spend(budget: ApiBudget): boolean {
+  if (budget.remaining <= 0) {
+    budget.exhausted = true;
+    return false;
+  }
+  budget.remaining--;
+  if (budget.remaining === 0) budget.exhausted = true;
+  return true;
+}
+
+/** Runs `task` over `items`, at most `limit` at a time; results keep the input order. */
+async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await task(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function quoteKeys(keys: string[]): string {
+  return keys.map((key) => `"${key}"`).join(', ');
+}
+
+/** The links of `issueKey`; none, noting why, if they can't be read. */
+async function fetchIssueLinks(issueKey: string, traversal: Traversal): Promise<IssueLink[]> {
+  const { outcome } = traversal;
+  if (!spend(traversal.budget)) {
+    outcome.truncated.add('budget');
+    return [];
+  }
+  try {
+    const res = await api.asApp().requestJira(
+      route`/rest/api/3/issue/${issueKey}?fields=issuelinks`,
+      { method: 'GET' },
+    );
+    if (!res.ok) throw new Error(`Reading issue links failed (${res.status})`);
+    const data = await res.json();
+    return data.fields?.issuelinks ?? [];
+  } catch (err: any) {
+    console.error(`Could not read issue links of ${issueKey}:`, err);
+    outcome.truncated.add('error');
+    outcome.lastError = String(err?.message ?? err);
+    return [];
+  }
+}
+
+/** Keys on the `side` of the links of type `linkType`. */
+function linkedKeys(links: IssueLink[], linkType: string, side: 'inward' | 'outward'): string[] {
+  return links
+    .filter((link) => link.type?.name.toLowerCase() === linkType.toLowerCase())
+    .map((link) => (side === 'inward' ? link.inwardIssue?.key : link.outwardIssue?.key))
+    .filter((key): key is string => !!key);
+}
+
+/** The parents a child's fields name under one strategy. */
+function parentsVia(strategy: TraversalStrategy, fields: Record<string, any>): string[] {
+  switch (strategy.kind) {
+    case 'parent':
+      return fields.parent?.key ? [fields.parent.key] : [];
+    case 'parentLink': {
+      // Parent Link reads as { data: { key } }; other parent fields as { key } or a key
+      const value = fields[strategy.field];
+      const key = value?.data?.key ?? value?.key ?? (typeof value === 'string' ? value : undefined);
+      return key ? [key] : [];
+    }
+    case 'issueLink':
+      // A child's link to its parent is on the other side
+      return linkedKeys(
+        fields.issuelinks ?? [],
+        strategy.linkType,
+        strategy.direction === 'inward' ? 'outward' : 'inward',
+      );
+  }
+}
+
+/** `customfield_10018` as `cf[10018]`; other field names quoted. */
+function jqlField(field: string): string {
+  const id = field.match(/^customfield_(\d+)$/i)?.[1];
+  return id ? `cf[${id}]` : `"${field}"`;
+}
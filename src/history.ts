@@ -0,0 +1,136 @@
+/**
+ * history.ts — Time series of each issue's metric values.
+ *
+ * Every time results are stored a point is appended when a value changed,
+ * or when the last point is from an earlier day, so the daily
+ * reconciliation pass leaves at least one point per day. Bursts of changes
+ * collapse into one point, older points are thinned to one per day, and
+ * the series is capped in age and length to stay within a storage value.
+ */
+import { storage } from '@forge/api';
+import type { BurnSample, BurnTotals, HistoryPoint, IssueMetrics, MetricHistory } from './types';
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+/** Changes this close to the last point replace it instead of appending. */
+export const COALESCE_MS = 15 * 60 * 1000;
+/** Points older than this are kept only as the last point of their day. */
+export const DETAIL_DAYS = 14;
+export const RETENTION_DAYS = 180;
+export const MAX_POINTS = 300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const historyKey = (issueKey: string) => `history-${issueKey}`;
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Adds the stored results, and the burn totals forecasts read, to the
+ * issue's history. Non-fatal: a failure is logged and the results
+ * themselves are unaffected.
+ */
+export async function recordHistory(
+  issueKey: string,
+  metrics: IssueMetrics,
+  burn?: Record<string, BurnTotals>,
+): Promise<void> {
+  try {
+    const history: MetricHistory = (await storage.get(historyKey(issueKey))) ?? { points: [] };
+    const points = appendSnapshot(history.points, metrics, Date.parse(metrics.updatedAt), burn);
+    if (points) await storage.set(historyKey(issueKey), { points });
+  } catch (err) {
+    console.warn(`Could not record history for ${issueKey}:`, err);
+  }
+}
+
+/** The series for one metric, oldest first. */
+export async function getMetricHistory(
+  issueKey: string,
+  metricId: string,
+): Promise<Array<{ at: string; value: number }>> {
+  const history: MetricHistory | undefined = await storage.get(historyKey(issueKey));
+  return (history?.points ?? [])
+    .filter((point) => metricId in point.values)
+    .map((point) => ({ at: point.at, value: point.values[metricId] }));
+}
+
+/** Burn totals recorded for `storyPointsField`, oldest first. */
+export async function getBurnSamples(
+  issueKey: string,
+  storyPointsField: string,
+): Promise<BurnSample[]> {
+  const history: MetricHistory | undefined = await storage.get(historyKey(issueKey));
+  return (history?.points ?? [])
+    .filter((point) => point.burn?.[storyPointsField])
+    .map((point) => ({ at: point.at, ...point.burn![storyPointsField] }));
+}
+
+/** Removes the history of a deleted issue. */
+export async function deleteHistory(issueKey: string): Promise<void> {
+  await storage.delete(historyKey(issueKey));
+}
+
+// ─── Series Maintenance ─────────────────────────────────────────────────────
+
+/**
+ * Returns the series with a point for `metrics` at `now` added and the
+ * retention limits applied, or null when nothing needs to be written.
+ */
+export function appendSnapshot(
+  points: HistoryPoint[],
+  metrics: IssueMetrics,
+  now: number,
+  burn?: Record<string, BurnTotals>,
+): HistoryPoint[] | null {
+  const values: Record<string, number> = {};
+  for (const [id, result] of Object.entries(metrics.results)) values[id] = result.value;
+
+  const last = points[points.length - 1];
+  const lastAt = last ? Date.parse(last.at) : -Infinity;
+  const sameDay = dayOf(lastAt) === dayOf(now);
+  if (last && sameDay && sameValues(last.values, values) && sameBurn(last.burn, burn)) return null;
+
+  const point: HistoryPoint = { at: new Date(now).toISOString(), values };
+  if (burn && Object.keys(burn).length) point.burn = burn;
+  // The first point is never replaced, so a new series keeps its starting value
+  const coalesce = points.length > 1 && sameDay && now - lastAt < COALESCE_MS;
+  const next = coalesce ? [...points.slice(0, -1), point] : [...points, point];
+  return prune(next, now);
+}
+
+/** Applies the age, thinning and length limits. */
+export function prune(points: HistoryPoint[], now: number): HistoryPoint[] {
+  const oldest = now - RETENTION_DAYS * DAY_MS;
+  const detailed = now - DETAIL_DAYS * DAY_MS;
+
+  const kept = points.filter((point, i) => {
+    const at = Date.parse(point.at);
+    if (at < oldest) return false;
+    if (at >= detailed) return true;
+    const next = points[i + 1];
+    return !next || dayOf(Date.parse(next.at)) !== dayOf(at);
+  });
+  return kept.slice(-MAX_POINTS);
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** UTC day number. */
+function dayOf(time: number): number {
+  return Math.floor(time / DAY_MS);
+}
+
+function sameValues(a: Record<string, number>, b: Record<string, number>): boolean {
+  const ids = Object.keys(b);
+  return ids.length === Object.keys(a).length && ids.every((id) => a[id] === b[id]);
+}
+
+function sameBurn(a: Record<string, BurnTotals> = {}, b: Record<string, BurnTotals> = {}): boolean {
+  const fields = Object.keys(b);
+  return (
+    fields.length === Object.keys(a).length &&
+    fields.every(
+      (f) => a[f]?.remainingPoints === b[f].remainingPoints && a[f]?.doneCount === b[f].doneCount,
+    )
+  );
+}
@@ -5,60 +5,266 @@
  *   handler             — Forge Resolver for Custom UI bridge calls
  *   computeFieldValue   — Custom field value resolver
  *   recomputeParentMetrics — Event trigger handler
+ *   debounceHandler     — Consumer for the debounced recompute queue
+ *   reconcileRollups    — Scheduled reconciliation handler
+ *   backfillHandler     — Consumer for the bulk backfill queue
  */
 import Resolver from '@forge/resolver';
 import { storage } from '@forge/api';
-import api, { route } from '@forge/api';
-import { getDescendants, getAncestorKeys } from './hierarchy';
-import { computeAggregate } from './formulas';
+import { Queue } from '@forge/events';
+import {
+  createApiBudget,
+  getDescendants,
+  getAncestorKeys,
+  getIssueHeader,
+  getIssueLinkTypes,
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_STORY_POINTS_FIELD,
+} from './hierarchy';
+import { extractFieldReferences, previewAggregate } from './formulas';
+import { validateFormula } from './parser';
+import { getSemanticsFields } from './statuses';
+import { filterToJql, getFilterFields } from './filters';
+import {
+  applyIncrementalUpdate,
+  forgetIssue,
+  getBreakdown,
+  getIndexedParentKey,
+  recomputeForParent,
+} from './rollup';
+import { createDebouncer } from './debounce';
+import { getReconciliationStatus, runReconciliation } from './reconcile';
+import { getBurnSamples, getMetricHistory } from './history';
+import { cancelBackfill, getBackfillJob, processBackfill, startBackfill } from './backfill';
+import {
+  changesOwnFields,
+  getPreviousParentKeys,
+  getSkipReason,
+  getWatchedFields,
+  ISSUE_DELETED_EVENT,
+} from './changes';
+import {
+  getMetricDefinitions,
+  saveMetricDefinition,
+  deleteMetricDefinition,
+  normalizeDefinition,
+  getConfigOverrides,
+  saveConfigOverride,
+  deleteConfigOverride,
+  getMaxConfiguredDepth,
+  getStatusSemantics,
+  saveStatusSemantics,
+  getTraversalStrategies,
+  saveTraversalStrategies,
+} from './config';
 import type {
-  FieldConfig,
+  IssueMetrics,
+  MetricDefinition,
   MetricResult,
   IssueTriggerEvent,
 } from './types';
 
-// ─── Defaults ───────────────────────────────────────────────────────────────
-const DEFAULT_CONFIG: FieldConfig = { 
-  type: 'storyPointSum',
-  storyPointsField: 'story_points'
-};
-
 // ─── Resolver (Custom UI bridge) ────────────────────────────────────────────
 const resolver = new Resolver();
 
 /**
- * Called by the admin-page Custom UI to persist config.
+ * Called by the admin-page and field-view Custom UIs to list metrics.
  */
-resolver.define('saveFieldConfig', async ({ payload }: any) => {
-  const config: FieldConfig = {
-    type: payload.type ?? 'storyPointSum',
-    formula: payload.formula,
-    thresholds: payload.thresholds,
-    maxDepth: payload.maxDepth,
-    storyPointsField: payload.storyPointsField ?? 'story_points',
-  };
-  await storage.set('global-field-config', config);
-  return { ok: true };
+resolver.define('getMetricDefinitions', async () => {
+  return getMetricDefinitions();
+});
+
+/**
+ * Called by the admin-page Custom UI to create or update a metric.
+ */
+resolver.define('saveMetricDefinition', async ({ payload }: any) => {
+  const existing = await getMetricDefinitions();
+  let definition: MetricDefinition;
+  try {
+    definition = normalizeDefinition(payload, existing);
+  } catch (err: any) {
+    return { ok: false, error: err.message };
+  }
+  if (definition.type === 'custom') {
+    const { valid, errors } = validateFormula(definition.formula ?? '');
+    if (!valid) return { ok: false, error: errors[0].message, errors };
+  }
+  const definitions = await saveMetricDefinition(definition, payload.primary === true);
+  return { ok: true, definition, definitions };
+});
+
+/**
+ * Called by the admin-page Custom UI while a custom formula is being typed.
+ */
+resolver.define('validateFormula', async ({ payload }: any) => {
+  return validateFormula(String(payload.formula ?? ''));
+});
+
+/**
+ * Called by the admin-page Custom UI to preview a formula against a sample
+ * issue's descendants. Nothing is stored.
+ */
+resolver.define('previewFormula', async ({ payload }: any) => {
+  const issueKey = String(payload.issueKey ?? '').trim().toUpperCase();
+  if (!issueKey) return { ok: false, error: 'Missing issueKey' };
+
+  let config: MetricDefinition;
+  try {
+    config = {
+      ...normalizeDefinition({ ...payload.config, formula: payload.formula }, []),
+      statusSemantics: await getStatusSemantics(),
+    };
+  } catch (err: any) {
+    return { ok: false, error: err.message };
+  }
+  if (config.type === 'custom') {
+    const { valid, errors } = validateFormula(config.formula ?? '');
+    if (!valid) return { ok: false, error: errors[0].message, errors };
+  }
+
+  try {
+    const storyPointsField = config.storyPointsField ?? DEFAULT_STORY_POINTS_FIELD;
+    const descendants = await getDescendants(
+      issueKey,
+      createApiBudget(),
+      config.maxDepth ?? DEFAULT_MAX_DEPTH,
+      storyPointsField,
+      [
+        ...(config.type === 'custom' ? extractFieldReferences(config.formula ?? '') : []),
+        ...getSemanticsFields(config.statusSemantics),
+        ...getFilterFields(config.filter),
+      ],
+      filterToJql(config.filter),
+      await getTraversalStrategies(),
+    );
+    const timeline =
+      config.type === 'forecastCompletion'
+        ? {
+            samples: await getBurnSamples(issueKey, storyPointsField),
+            dueDate: (await getIssueHeader(issueKey)).dueDate,
+          }
+        : undefined;
+    return { ok: true, issueKey, ...previewAggregate(descendants.issues, config, timeline) };
+  } catch (err: any) {
+    return { ok: false, error: `Could not load ${issueKey}: ${err.message}` };
+  }
+});
+
+/**
+ * Called by the admin-page Custom UI to remove a metric.
+ */
+resolver.define('deleteMetricDefinition', async ({ payload }: any) => {
+  if (!payload.id) return { ok: false, error: 'Missing id' };
+  try {
+    const definitions = await deleteMetricDefinition(payload.id);
+    return { ok: true, definitions };
+  } catch (err: any) {
+    return { ok: false, error: err.message };
+  }
+});
+
+/**
+ * Called by the admin-page Custom UI to list project / issue-type overrides.
+ */
+resolver.define('getConfigOverrides', async () => {
+  return getConfigOverrides();
+});
+
+/**
+ * Called by the admin-page Custom UI to create or replace an override.
+ */
+resolver.define('saveConfigOverride', async ({ payload }: any) => {
+  try {
+    const overrides = await saveConfigOverride(payload);
+    return { ok: true, overrides };
+  } catch (err: any) {
+    return { ok: false, error: err.message };
+  }
+});
+
+/**
+ * Called by the admin-page Custom UI to remove an override.
+ */
+resolver.define('deleteConfigOverride', async ({ payload }: any) => {
+  if (!payload.id) return { ok: false, error: 'Missing id' };
+  try {
+    const overrides = await deleteConfigOverride(payload.id);
+    return { ok: true, overrides };
+  } catch (err: any) {
+    return { ok: false, error: err.message };
+  }
+});
+
+/**
+ * Called by the admin-page Custom UI to show the status mapping.
+ */
+resolver.define('getStatusSemantics', async () => {
+  return getStatusSemantics();
+});
+
+/**
+ * Called by the admin-page Custom UI to replace the status mapping.
+ */
+resolver.define('saveStatusSemantics', async ({ payload }: any) => {
+  try {
+    const semantics = await saveStatusSemantics(payload);
+    return { ok: true, semantics };
+  } catch (err: any) {
+    return { ok: false, error: err.message };
+  }
+});
+
+/**
+ * Called by the admin-page Custom UI to show the hierarchy relationships
+ * and the link types they can use.
+ */
+resolver.define('getTraversalStrategies', async () => {
+  const [strategies, linkTypes] = await Promise.all([getTraversalStrategies(), getIssueLinkTypes()]);
+  return { strategies, linkTypes };
 });
 
 /**
- * Called by the admin-page Custom UI to read current config.
+ * Called by the admin-page Custom UI to replace the hierarchy relationships.
  */
-resolver.define('getFieldConfig', async () => {
-  const config = await storage.get('global-field-config');
-  return config ?? DEFAULT_CONFIG;
+resolver.define('saveTraversalStrategies', async ({ payload }: any) => {
+  try {
+    const strategies = await saveTraversalStrategies(payload.strategies);
+    return { ok: true, strategies };
+  } catch (err: any) {
+    return { ok: false, error: err.message };
+  }
 });
 
 /**
- * Called by field-view / field-list Custom UI to get the metric value
- * for a specific issue (alternative to the fieldValue from context).
+ * Called by field-view / field-list Custom UI to get every metric result
+ * for a specific issue (the fieldValue from context holds only the primary).
  */
 resolver.define('getMetrics', async ({ context }: any) => {
   const issueKey: string =
     context?.extension?.issue?.key ?? context?.extension?.issueKey;
   if (!issueKey) return null;
-  const data = await storage.get(`metrics-${issueKey}`);
-  return data ?? null;
+  const data: IssueMetrics | undefined = await storage.get(`metrics-${issueKey}`);
+  return data?.results ? data : null;
+});
+
+/**
+ * Called by field-view Custom UI for the trend of one metric on an issue.
+ */
+resolver.define('getMetricHistory', async ({ payload, context }: any) => {
+  const issueKey: string =
+    context?.extension?.issue?.key ?? context?.extension?.issueKey;
+  if (!issueKey || !payload?.metricId) return [];
+  return getMetricHistory(issueKey, payload.metricId);
+});
+
+/**
+ * Called by field-view Custom UI when the drill-down panel is expanded.
+ */
+resolver.define('getBreakdown', async ({ payload, context }: any) => {
+  const issueKey: string =
+    context?.extension?.issue?.key ?? context?.extension?.issueKey;
+  if (!issueKey || !payload?.metricId) return null;
+  return getBreakdown(issueKey, payload.metricId, createApiBudget());
 });
 
 /**
@@ -67,36 +273,75 @@ resolver.define('getMetrics', async ({ context }: any) => {
 resolver.define('forceRecompute', async ({ payload }: any) => {
   const parentKey: string = payload.issueKey;
   if (!parentKey) return { ok: false, error: 'Missing issueKey' };
-  await recomputeForParent(parentKey);
+  await recomputeForParent(parentKey, createApiBudget());
   return { ok: true };
 });
 
+/**
+ * Called by the admin-page Custom UI to show the reconciliation report.
+ */
+resolver.define('getReconciliationStatus', async () => {
+  return getReconciliationStatus();
+});
+
+/**
+ * Called by the admin-page Custom UI to recompute every issue matching a
+ * JQL query in the background.
+ */
+resolver.define('startBackfill', async ({ payload }: any) => {
+  try {
+    const job = await startBackfill(String(payload.jql ?? ''));
+    return { ok: true, job };
+  } catch (err: any) {
+    return { ok: false, error: err.message };
+  }
+});
+
+/**
+ * Called by the admin-page Custom UI to stop the running backfill.
+ */
+resolver.define('cancelBackfill', async () => {
+  const job = await cancelBackfill();
+  return { ok: true, job };
+});
+
+/**
+ * Called by the admin-page Custom UI to poll backfill progress.
+ */
+resolver.define('getBackfillStatus', async () => {
+  return getBackfillJob();
+});
+
 export const handler = resolver.getDefinitions();
 
 // ─── Custom Field Value Resolver ────────────────────────────────────────────
 /**
  * Forge calls this when Jira needs the field value for an issue.
- * We return the pre-computed JSON string from Forge Storage.
+ * We return the primary metric's pre-computed JSON string from Forge Storage.
  */
 export async function computeFieldValue({ context }: any): Promise<string | null> {
   const issueKey: string = context?.extension?.issue?.key;
   if (!issueKey) return null;
 
-  const metrics: MetricResult | null = await storage.get(`metrics-${issueKey}`);
-  if (!metrics) {
-    // First access — compute on the fly so the field isn't blank.
-    const freshMetrics = await recomputeForParent(issueKey);
-    return freshMetrics ? JSON.stringify(freshMetrics) : null;
+  let metrics: IssueMetrics | null = await storage.get(`metrics-${issueKey}`);
+  if (!metrics?.results) {
+    // First access (or a pre-definitions entry) — compute on the fly so the
+    // field isn't blank.
+    metrics = await recomputeForParent(issueKey, createApiBudget());
+    if (!metrics) return null;
   }
 
-  return JSON.stringify(metrics);
+  const primary = selectPrimaryResult(metrics, await getMetricDefinitions());
+  return primary ? JSON.stringify(primary) : null;
 }
 
 // ─── Event Trigger ──────────────────────────────────────────────────────────
 /**
  * Fires on child/grandchild create / update / delete.
- * Walks up the hierarchy and recomputes every ancestor.
- * Uses debouncing to prevent redundant calculations during bulk operations.
+ * Updates that touch no field the configuration depends on are skipped.
+ * Field edits are applied as deltas to the ancestors' stored totals; other
+ * events walk up the hierarchy and recompute every ancestor, debounced to
+ * prevent redundant calculations during bulk operations.
  */
 export async function recomputeParentMetrics(
   event: IssueTriggerEvent,
@@ -104,97 +349,117 @@ export async function recomputeParentMetrics(
   const issueKey = event.issue?.key;
   if (!issueKey) return;
 
-  const config = await getConfig();
-  const maxDepth = config.maxDepth ?? 3;
+  const [definitions, overrides, semantics, strategies] = await Promise.all([
+    getMetricDefinitions(),
+    getConfigOverrides(),
+    getStatusSemantics(),
+    getTraversalStrategies(),
+  ]);
+  const watched = getWatchedFields(definitions, overrides, semantics, strategies);
+  const skipReason = getSkipReason(event, watched);
+  if (skipReason) {
+    console.log(`Skipping recomputation for ${issueKey}: ${skipReason}`);
+    return;
+  }
+
+  const pending = await applyIncrementalUpdate(event);
+  if (pending) {
+    // The deltas only reach the ancestors; a due date or type change is the issue's own
+    const keys = changesOwnFields(event) ? [...pending, issueKey] : pending;
+    if (keys.length > 0) await debouncer.markDirty(keys);
+    return;
+  }
 
-  // Get all ancestors that might need updating
-  const ancestors = await getAncestorKeys(issueKey, maxDepth);
+  const maxDepth = await getMaxConfiguredDepth();
+  const keysToRecompute = new Set<string>();
+  const addChain = async (key: string) => {
+    keysToRecompute.add(key);
+    for (const ancestor of await getAncestorKeys(key, maxDepth - 1, strategies)) {
+      keysToRecompute.add(ancestor);
+    }
+  };
 
-  // Also recompute for the issue itself (it might be a parent too)
-  const keysToRecompute = [issueKey, ...ancestors];
+  if (event.eventType === ISSUE_DELETED_EVENT) {
+    // The issue is gone, so only the index still knows where it lived
+    const parentKey = await getIndexedParentKey(issueKey);
+    await forgetIssue(issueKey);
+    if (parentKey) await addChain(parentKey);
+  } else {
+    // The issue itself (it might be a parent too) and its current ancestors
+    keysToRecompute.add(issueKey);
+    for (const ancestor of await getAncestorKeys(issueKey, maxDepth, strategies)) {
+      keysToRecompute.add(ancestor);
+    }
 
-  // Schedule debounced recomputation for each key
-  for (const key of keysToRecompute) {
-    await scheduleDebounced(key);
+    // The chain it was moved away from, if it changed parent
+    const previousParents = new Set(getPreviousParentKeys(event, strategies));
+    const indexedParent = await getIndexedParentKey(issueKey);
+    if (indexedParent && !keysToRecompute.has(indexedParent)) previousParents.add(indexedParent);
+    for (const parentKey of previousParents) {
+      await addChain(parentKey);
+    }
   }
+
+  // Recompute each key once the current burst of changes settles
+  await debouncer.markDirty([...keysToRecompute]);
+}
+
+// ─── Scheduled Reconciliation ───────────────────────────────────────────────
+/**
+ * Hourly safety net: continues (or starts) the reconciliation pass that
+ * recomputes every issue with stored results. See reconcile.ts.
+ */
+export async function reconcileRollups(): Promise<void> {
+  await runReconciliation();
 }
 
 // ─── Debouncing ─────────────────────────────────────────────────────────────
-const DEBOUNCE_WINDOW_MS = 5000; // 5 second window for deduplication
+const recomputeQueue = new Queue({ key: 'recompute-queue' });
+
+const debouncer = createDebouncer({
+  store: storage,
+  queue: { push: (payload, delayInSeconds) => recomputeQueue.push({ ...payload }, { delayInSeconds }) },
+  // One key per queue event, so each recompute gets its invocation's budget
+  recompute: (issueKey) => recomputeForParent(issueKey, createApiBudget()),
+});
+
+const consumer = new Resolver();
 
 /**
- * Schedule a recomputation for the given key with rate limiting.
- * Uses a simple time-based lock to prevent excessive recomputations.
+ * Receives the delayed events queued by the debouncer and recomputes the
+ * key once its burst of changes has settled.
  */
-async function scheduleDebounced(issueKey: string): Promise<void> {
-  const lockKey = `recompute-lock-${issueKey}`;
-  const now = Date.now();
-  
-  try {
-    // Check if we recently computed for this key
-    const lastCompute = await storage.get(lockKey);
-    if (lastCompute && (now - lastCompute.timestamp) < DEBOUNCE_WINDOW_MS) {
-      // Skip this recomputation - we did it recently
-      console.log(`Skipping recomputation for ${issueKey} (debounced)`);
-      return;
-    }
-    
-    // Set lock with TTL and perform computation
-    await storage.set(lockKey, { timestamp: now });
-    await recomputeForParent(issueKey);
-    
-  } catch (err) {
-    // Fall back to immediate execution if debouncing fails
-    console.warn(`Debouncing failed for ${issueKey}, executing anyway:`, err);
-    await recomputeForParent(issueKey);
-  }
-}
+consumer.define('recompute-event-listener', async ({ payload }: any) => {
+  await debouncer.process(payload);
+});
 
-// ─── Core Recomputation ─────────────────────────────────────────────────────
+export const debounceHandler = consumer.getDefinitions();
 
-async function recomputeForParent(parentKey: string): Promise<MetricResult | null> {
-  try {
-    const config = await getConfig();
-    const descendants = await getDescendants(
-      parentKey, 
-      config.maxDepth ?? 3,
-      config.storyPointsField ?? 'story_points'
-    );
+// ─── Backfill ───────────────────────────────────────────────────────────────
+const backfillConsumer = new Resolver();
 
-    // No children → nothing to aggregate
-    if (descendants.length === 0) {
-      await storage.delete(`metrics-${parentKey}`);
-      return null;
-    }
+/**
+ * Continues the backfill job one time-boxed slice at a time. See backfill.ts.
+ */
+backfillConsumer.define('backfill-event-listener', async ({ payload }: any) => {
+  await processBackfill(payload);
+});
 
-    const metrics = computeAggregate(descendants, config);
-
-    // Persist in Forge Storage (fast reads for the field resolver)
-    await storage.set(`metrics-${parentKey}`, metrics);
-
-    // Also write as an issue property (for JQL / external tools)
-    try {
-      await api.asApp().requestJira(
-        route`/rest/api/3/issue/${parentKey}/properties/isurollup`,
-        {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(metrics),
-        },
-      );
-    } catch (propErr) {
-      // Non-fatal — the field still works via Forge Storage
-      console.warn(`Could not set issue property on ${parentKey}:`, propErr);
-    }
+export const backfillHandler = backfillConsumer.getDefinitions();
 
-    return metrics;
-  } catch (err) {
-    console.error(`Recomputation failed for ${parentKey}:`, err);
-    return null;
-  }
-}
+// ─── Helpers ────────────────────────────────────────────────────────────────
 
-async function getConfig(): Promise<FieldConfig> {
-  const config = await storage.get('global-field-config');
-  return (config as FieldConfig) ?? DEFAULT_CONFIG;
+/**
+ * The result for the first definition that has one; definitions are stored
+ * primary first.
+ */
+function selectPrimaryResult(
+  metrics: IssueMetrics,
+  definitions: MetricDefinition[],
+): MetricResult | null {
+  for (const definition of definitions) {
+    const result = metrics.results[definition.id];
+    if (result) return result;
+  }
+  return Object.values(metrics.results)[0] ?? null;
 }
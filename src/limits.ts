@@ -0,0 +1,8 @@
+/**
+ * limits.ts — How much of a Forge invocation's time the app's own work may
+ * use. Functions are stopped after 25 seconds, so long-running jobs
+ * checkpoint well before that.
+ */
+
+/** Work time for one invocation, leaving headroom below the 25-second limit. */
+export const INVOCATION_TIME_BUDGET_MS = 15000;
@@ -0,0 +1,519 @@
+/**
+ * parser.ts — Tokenizer and parser for the custom formula DSL.
+ *
+ * Produces an AST that formulas.ts evaluates. Every problem is reported as
+ * a FormulaError carrying the 1-based column it was found at, so the admin
+ * page can point at the typo instead of the whole site showing a wrong number.
+ */
+import type { FormulaContext } from './types';
+
+// ─── AST ────────────────────────────────────────────────────────────────────
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/'
+  | '>' | '<' | '>=' | '<=' | '==' | '!='
+  | 'AND' | 'OR';
+
+export type FormulaNode =
+  | { kind: 'number'; value: number; column: number }
+  | { kind: 'string'; value: string; column: number }
+  /** `scope: 'row'` reads from the descendant visited by an aggregate. */
+  | { kind: 'variable'; name: string; scope: 'context' | 'row'; column: number }
+  | { kind: 'unary'; op: '-' | 'NOT'; operand: FormulaNode; column: number }
+  | { kind: 'binary'; op: BinaryOperator; left: FormulaNode; right: FormulaNode; column: number }
+  | { kind: 'call'; name: string; args: FormulaNode[]; column: number };
+
+// ─── Errors ─────────────────────────────────────────────────────────────────
+
+export type FormulaErrorCode =
+  | 'emptyFormula'
+  | 'invalidCharacter'
+  | 'unterminatedString'
+  | 'unexpectedToken'
+  | 'unexpectedEnd'
+  | 'unknownIdentifier'
+  | 'unknownFunction'
+  | 'rowVariableOutsideAggregate'
+  | 'argumentCount'
+  | 'invalidArgument';
+
+/** Plain-object form of a FormulaError, as returned to the Custom UI. */
+export interface FormulaIssue {
+  code: FormulaErrorCode;
+  message: string;
+  /** 1-based column of the offending token. */
+  column: number;
+}
+
+export class FormulaError extends Error {
+  readonly code: FormulaErrorCode;
+  readonly column: number;
+
+  constructor(code: FormulaErrorCode, message: string, column: number) {
+    super(`Column ${column}: ${message}`);
+    this.name = 'FormulaError';
+    this.code = code;
+    this.column = column;
+  }
+
+  toIssue(): FormulaIssue {
+    return { code: this.code, message: this.message, column: this.column };
+  }
+}
+
+// ─── Vocabulary ─────────────────────────────────────────────────────────────
+
+/** Numeric FormulaContext fields, i.e. the names a context variable resolves to. */
+export type ContextVariable = {
+  [K in keyof FormulaContext]-?: FormulaContext[K] extends number ? K : never;
+}[keyof FormulaContext];
+
+/** Context variables, keyed by lower-case name (identifiers ignore case). */
+export const CONTEXT_VARIABLES: Record<string, ContextVariable> = Object.fromEntries(
+  ([
+    'totalStoryPoints',
+    'doneCount',
+    'undoneCount',
+    'childCount',
+    'remainingPoints',
+    'percentComplete',
+    'todoCount',
+    'inProgressCount',
+    'donePoints',
+    'inProgressPoints',
+    'percentCompleteByPoints',
+    'blockedCount',
+    'originalEstimate',
+    'timeSpent',
+    'remainingEstimate',
+    'estimateAccuracy',
+  ] as ContextVariable[]).map((name) => [name.toLowerCase(), name]),
+);
+
+/** Per-descendant variables, only valid inside aggregate arguments. */
+export const ROW_VARIABLES: Record<string, string> = Object.fromEntries(
+  [
+    'key',
+    'status',
+    'statusCategory',
+    'issuetype',
+    'labels',
+    'storyPoints',
+    'done',
+    'originalEstimate',
+    'timeSpent',
+    'remainingEstimate',
+  ].map((name) => [name.toLowerCase(), name]),
+);
+
+interface FunctionSpec {
+  minArgs: number;
+  maxArgs: number;
+  /** Arguments are evaluated once per descendant. */
+  aggregate?: boolean;
+}
+
+export const FUNCTIONS: Record<string, FunctionSpec> = {
+  ROUND: { minArgs: 1, maxArgs: 1 },
+  ABS: { minArgs: 1, maxArgs: 1 },
+  MIN: { minArgs: 1, maxArgs: Infinity },
+  MAX: { minArgs: 1, maxArgs: Infinity },
+  IF: { minArgs: 2, maxArgs: 3 },
+  FIELD: { minArgs: 1, maxArgs: 1 },
+  DEPTH: { minArgs: 2, maxArgs: 2 },
+  COUNT: { minArgs: 0, maxArgs: 1, aggregate: true },
+  COUNTIF: { minArgs: 1, maxArgs: 1, aggregate: true },
+  SUM: { minArgs: 1, maxArgs: 1, aggregate: true },
+  AVG: { minArgs: 1, maxArgs: 1, aggregate: true },
+  MEDIAN: { minArgs: 1, maxArgs: 1, aggregate: true },
+  PERCENTILE: { minArgs: 2, maxArgs: 2, aggregate: true },
+};
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Parses a formula into an AST. Throws the first FormulaError found.
+ * A blank formula parses to the number 0.
+ */
+export function parseFormula(expr: string): FormulaNode {
+  const { ast, errors } = analyze(expr);
+  if (errors.length) throw errors[0];
+  return ast!;
+}
+
+/**
+ * Collects every problem in a formula without throwing. Syntax errors stop
+ * the parse, so at most one of those is reported; unknown identifiers and
+ * argument-count errors are all reported.
+ */
+export function validateFormula(expr: string): { valid: boolean; errors: FormulaIssue[] } {
+  if (!expr.trim()) {
+    const error = new FormulaError('emptyFormula', 'Formula is empty', 1);
+    return { valid: false, errors: [error.toIssue()] };
+  }
+  const { errors } = analyze(expr);
+  return { valid: errors.length === 0, errors: errors.map((e) => e.toIssue()) };
+}
+
+// ─── Tokenizer ──────────────────────────────────────────────────────────────
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  /** Literal value: parsed number or unescaped string. */
+  value?: number | string;
+  column: number;
+}
+
+const OPERATORS = ['>=', '<=', '==', '!=', '&&', '||', '+', '-', '*', '/', '(', ')', ',', '>', '<', '!'];
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expr.length) {
+    const ch = expr[i];
+    const column = i + 1;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^\d+(?:\.\d*)?|^\.\d+/.exec(expr.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], value: parseFloat(number[0]), column });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[a-zA-Z_]\w*/.exec(expr.slice(i));
+    if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], column });
+      i += identifier[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < expr.length && expr[j] !== ch) {
+        if (expr[j] === '\\' && j + 1 < expr.length) j++;
+        value += expr[j++];
+      }
+      if (j >= expr.length) {
+        throw new FormulaError('unterminatedString', 'Unterminated string', column);
+      }
+      tokens.push({ type: 'string', text: expr.slice(i, j + 1), value, column });
+      i = j + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => expr.startsWith(o, i));
+    if (op) {
+      tokens.push({ type: 'operator', text: op, column });
+      i += op.length;
+      continue;
+    }
+
+    throw new FormulaError('invalidCharacter', `Unexpected character '${ch}'`, column);
+  }
+
+  tokens.push({ type: 'eof', text: '', column: expr.length + 1 });
+  return tokens;
+}
+
+// ─── Parser ─────────────────────────────────────────────────────────────────
+// Precedence, lowest first: OR, AND, NOT, comparison, + -, * /, unary -.
+
+class Parser {
+  private pos = 0;
+  /** > 0 while parsing aggregate arguments, where row variables are valid. */
+  private aggregateDepth = 0;
+  readonly errors: FormulaError[] = [];
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw unexpected(token);
+    }
+    return node;
+  }
+
+  private parseOr(): FormulaNode {
+    let left = this.parseAnd();
+    while (this.isKeyword('OR', '||')) {
+      const { column } = this.next();
+      left = { kind: 'binary', op: 'OR', left, right: this.parseAnd(), column };
+    }
+    return left;
+  }
+
+  private parseAnd(): FormulaNode {
+    let left = this.parseNot();
+    while (this.isKeyword('AND', '&&')) {
+      const { column } = this.next();
+      left = { kind: 'binary', op: 'AND', left, right: this.parseNot(), column };
+    }
+    return left;
+  }
+
+  private parseNot(): FormulaNode {
+    if (this.isKeyword('NOT', '!')) {
+      const { column } = this.next();
+      return { kind: 'unary', op: 'NOT', operand: this.parseNot(), column };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FormulaNode {
+    let left = this.parseAddSub();
+    while (this.isOperator('>', '<', '>=', '<=', '==', '!=')) {
+      const { text, column } = this.next();
+      left = { kind: 'binary', op: text as BinaryOperator, left, right: this.parseAddSub(), column };
+    }
+    return left;
+  }
+
+  private parseAddSub(): FormulaNode {
+    let left = this.parseMulDiv();
+    while (this.isOperator('+', '-')) {
+      const { text, column } = this.next();
+      left = { kind: 'binary', op: text as BinaryOperator, left, right: this.parseMulDiv(), column };
+    }
+    return left;
+  }
+
+  private parseMulDiv(): FormulaNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*', '/')) {
+      const { text, column } = this.next();
+      left = { kind: 'binary', op: text as BinaryOperator, left, right: this.parseUnary(), column };
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOperator('-')) {
+      const { column } = this.next();
+      return { kind: 'unary', op: '-', operand: this.parseUnary(), column };
+    }
+    return this.parseAtom();
+  }
+
+  private parseAtom(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: token.value as number, column: token.column };
+
+      case 'string':
+        return { kind: 'string', value: token.value as string, column: token.column };
+
+      case 'identifier':
+        return this.isOperator('(') ? this.parseCall(token) : this.resolveVariable(token);
+
+      case 'operator':
+        if (token.text === '(') {
+          const node = this.parseOr();
+          this.expect(')');
+          return node;
+        }
+        throw unexpected(token);
+
+      default:
+        throw unexpected(token);
+    }
+  }
+
+  private parseCall(nameToken: Token): FormulaNode {
+    const name = nameToken.text.toUpperCase();
+    const spec = FUNCTIONS[name];
+    const column = nameToken.column;
+    this.expect('(');
+
+    if (!spec) {
+      this.errors.push(
+        new FormulaError('unknownFunction', `Unknown function '${nameToken.text}'${suggest(name, Object.keys(FUNCTIONS))}`, column),
+      );
+    }
+
+    if (spec?.aggregate) this.aggregateDepth++;
+    const args: FormulaNode[] = [];
+    if (!this.isOperator(')')) {
+      args.push(this.parseOr());
+      while (this.isOperator(',')) {
+        this.next();
+        args.push(this.parseOr());
+      }
+    }
+    if (spec?.aggregate) this.aggregateDepth--;
+    this.expect(')');
+
+    if (spec && (args.length < spec.minArgs || args.length > spec.maxArgs)) {
+      this.errors.push(
+        new FormulaError('argumentCount', `${name}() expects ${describeArity(spec)}, got ${args.length}`, column),
+      );
+    }
+
+    if (name === 'FIELD') {
+      if (args[0] && args[0].kind !== 'string') {
+        this.errors.push(
+          new FormulaError('invalidArgument', 'field() expects a quoted field name', args[0].column),
+        );
+      }
+      if (this.aggregateDepth === 0) {
+        this.errors.push(
+          new FormulaError('rowVariableOutsideAggregate', 'field() can only be used inside an aggregate such as SUM()', column),
+        );
+      }
+    }
+
+    if (name === 'DEPTH') {
+      const level = args[0];
+      if (level && (level.kind !== 'number' || level.value < 1 || !Number.isInteger(level.value))) {
+        this.errors.push(
+          new FormulaError('invalidArgument', 'DEPTH() expects a level of 1 or more, e.g. DEPTH(2, doneCount)', level.column),
+        );
+      }
+      if (this.aggregateDepth > 0) {
+        this.errors.push(
+          new FormulaError('invalidArgument', 'DEPTH() cannot be used inside an aggregate', column),
+        );
+      }
+    }
+
+    return { kind: 'call', name, args, column };
+  }
+
+  private resolveVariable(token: Token): FormulaNode {
+    const key = token.text.toLowerCase();
+    const column = token.column;
+
+    if (this.aggregateDepth > 0 && key in ROW_VARIABLES) {
+      return { kind: 'variable', name: ROW_VARIABLES[key], scope: 'row', column };
+    }
+    if (key in CONTEXT_VARIABLES) {
+      return { kind: 'variable', name: CONTEXT_VARIABLES[key], scope: 'context', column };
+    }
+
+    if (key in ROW_VARIABLES) {
+      this.errors.push(
+        new FormulaError(
+          'rowVariableOutsideAggregate',
+          `'${token.text}' can only be used inside an aggregate such as COUNT()`,
+          column,
+        ),
+      );
+    } else {
+      const known = [...Object.values(CONTEXT_VARIABLES), ...(this.aggregateDepth > 0 ? Object.values(ROW_VARIABLES) : [])];
+      this.errors.push(
+        new FormulaError('unknownIdentifier', `Unknown identifier '${token.text}'${suggest(token.text, known)}`, column),
+      );
+    }
+    return { kind: 'number', value: 0, column };
+  }
+
+  // ─── Token helpers ───
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private expect(text: string): Token {
+    const token = this.peek();
+    if (token.type !== 'operator' || token.text !== text) {
+      if (token.type === 'eof') {
+        throw new FormulaError('unexpectedEnd', `Expected '${text}' but the formula ended`, token.column);
+      }
+      throw new FormulaError('unexpectedToken', `Expected '${text}' but found '${token.text}'`, token.column);
+    }
+    return this.next();
+  }
+
+  private isOperator(...ops: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && ops.includes(token.text);
+  }
+
+  private isKeyword(word: string, symbol: string): boolean {
+    const token = this.peek();
+    return (
+      (token.type === 'operator' && token.text === symbol) ||
+      (token.type === 'identifier' && token.text.toUpperCase() === word)
+    );
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function analyze(expr: string): { ast?: FormulaNode; errors: FormulaError[] } {
+  if (!expr.trim()) return { ast: { kind: 'number', value: 0, column: 1 }, errors: [] };
+
+  let parser: Parser | undefined;
+  try {
+    parser = new Parser(tokenize(expr));
+    const ast = parser.parse();
+    return { ast, errors: parser.errors };
+  } catch (err) {
+    if (!(err instanceof FormulaError)) throw err;
+    // Semantic errors found before the syntax error still point at real typos
+    return { errors: [...(parser?.errors ?? []), err].sort((a, b) => a.column - b.column) };
+  }
+}
+
+function unexpected(token: Token): FormulaError {
+  if (token.type === 'eof') {
+    return new FormulaError('unexpectedEnd', 'Unexpected end of formula', token.column);
+  }
+  return new FormulaError('unexpectedToken', `Unexpected '${token.text}'`, token.column);
+}
+
+function describeArity(spec: FunctionSpec): string {
+  if (spec.minArgs === spec.maxArgs) {
+    return `${spec.minArgs} argument${spec.minArgs === 1 ? '' : 's'}`;
+  }
+  if (spec.maxArgs === Infinity) return `at least ${spec.minArgs} argument${spec.minArgs === 1 ? '' : 's'}`;
+  return `${spec.minArgs} to ${spec.maxArgs} arguments`;
+}
+
+/** " — did you mean 'x'?" for the closest candidate within a small edit distance. */
+function suggest(input: string, candidates: string[]): string {
+  const needle = input.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(needle.length / 4)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(needle, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? ` — did you mean '${best}'?` : '';
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
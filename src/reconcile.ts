@@ -0,0 +1,212 @@
+/**
+ * reconcile.ts — Scheduled safety net for missed or failed triggers.
+ *
+ * A pass recomputes every issue that has stored results, then every issue
+ * that only has the `isurollup` issue property. Each invocation of the
+ * scheduled trigger works through bounded batches until its time budget is
+ * spent and checkpoints a cursor, so a pass spans as many invocations as it
+ * needs. Counts of changed / unchanged / failed issues become the report
+ * shown on the admin page.
+ *
+ * Full recomputes can be slow, so the cursor also records how far into the
+ * current batch the pass got and is saved after every issue; an invocation
+ * cut short redoes at most the issue it was working on. An invocation also
+ * stops once its Jira API call budget is used up; the issue that used it up
+ * is redone by the next invocation rather than counted with partial results.
+ */
+import { storage, startsWith } from '@forge/api';
+import { createApiBudget, cutShortByBudget, searchIssues } from './hierarchy';
+import { INVOCATION_TIME_BUDGET_MS } from './limits';
+import { clearMetrics, rebuildRollup } from './rollup';
+import type { ApiBudget, IssueMetrics, ReconciliationReport } from './types';
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+const BATCH_SIZE = 20;
+/** A new pass starts this long after the previous one completed. */
+const PASS_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORTED_FAILURES = 50;
+
+/** Issues carrying the property; needs the `jira:entityProperty` index. */
+const PROPERTY_JQL = 'issue.property[isurollup].updatedAt IS NOT EMPTY ORDER BY key ASC';
+
+const RUN_KEY = 'reconcile-run';
+const REPORT_KEY = 'reconcile-report';
+const METRICS_PREFIX = 'metrics-';
+
+/** The report of the pass in progress plus where to resume it. */
+interface ReconciliationRun extends ReconciliationReport {
+  phase: 'storage' | 'properties';
+  /** Forge Storage query cursor, during the storage phase. */
+  cursor?: string;
+  /** Next page of the property search, during the properties phase. */
+  pageToken?: string;
+  /** Issues of the batch at `cursor` / `pageToken` already reconciled. */
+  position?: number;
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Called by the scheduled trigger. Resumes the pass in progress, or starts a
+ * new one when the last completed long enough ago.
+ */
+export async function runReconciliation(): Promise<void> {
+  let run: ReconciliationRun | undefined = await storage.get(RUN_KEY);
+  if (!run) {
+    const last: ReconciliationReport | undefined = await storage.get(REPORT_KEY);
+    if (last?.completedAt && Date.now() - Date.parse(last.completedAt) < PASS_INTERVAL_MS) return;
+    run = {
+      startedAt: new Date().toISOString(),
+      changed: 0,
+      unchanged: 0,
+      failed: 0,
+      failures: [],
+      phase: 'storage',
+    };
+  }
+
+  const deadline = Date.now() + INVOCATION_TIME_BUDGET_MS;
+  const budget = createApiBudget();
+  while (Date.now() < deadline && !budget.exhausted) {
+    const done = await reconcileBatch(run, deadline, budget);
+    if (done) {
+      const { phase, cursor, pageToken, position, ...report } = run;
+      await storage.set(REPORT_KEY, { ...report, completedAt: new Date().toISOString() });
+      await storage.delete(RUN_KEY);
+      console.log(
+        `Reconciliation complete: ${run.changed} changed, ${run.unchanged} unchanged, ${run.failed} failed`,
+      );
+      return;
+    }
+    await storage.set(RUN_KEY, run);
+  }
+}
+
+/**
+ * The last completed report and, while a pass is running, its progress so
+ * far.
+ */
+export async function getReconciliationStatus(): Promise<{
+  current: ReconciliationReport | null;
+  last: ReconciliationReport | null;
+}> {
+  const [run, last] = await Promise.all([storage.get(RUN_KEY), storage.get(REPORT_KEY)]);
+  if (!run) return { current: null, last: last ?? null };
+  const { phase, cursor, pageToken, position, ...current } = run as ReconciliationRun;
+  return { current, last: last ?? null };
+}
+
+// ─── Internals ──────────────────────────────────────────────────────────────
+
+/**
+ * Processes the rest of the current batch and advances the cursor, unless
+ * the deadline passes or the budget runs out first. True when the pass is
+ * done.
+ */
+async function reconcileBatch(
+  run: ReconciliationRun,
+  deadline: number,
+  budget: ApiBudget,
+): Promise<boolean> {
+  if (run.phase === 'storage') {
+    let query = storage.query().where('key', startsWith(METRICS_PREFIX)).limit(BATCH_SIZE);
+    if (run.cursor) query = query.cursor(run.cursor);
+    const page = await query.getMany();
+
+    const finished = await reconcileEach(run, page.results, deadline, budget, ({ key, value }) =>
+      reconcileIssue(run, key.slice(METRICS_PREFIX.length), value as IssueMetrics, budget),
+    );
+    if (!finished) return false;
+
+    run.cursor = page.nextCursor;
+    run.position = undefined;
+    if (!run.cursor) run.phase = 'properties';
+    return false;
+  }
+
+  let page;
+  try {
+    page = await searchIssues(PROPERTY_JQL, 'summary', run.pageToken, BATCH_SIZE);
+  } catch (err: any) {
+    // Ends the pass; the storage phase results still stand
+    run.error = `Issue property search failed: ${err?.message ?? err}`;
+    return true;
+  }
+
+  const finished = await reconcileEach(run, page.issues, deadline, budget, async (issue) => {
+    // Issues with stored results were handled by the storage phase
+    if (await storage.get(`${METRICS_PREFIX}${issue.key}`)) return true;
+    return reconcileIssue(run, issue.key, undefined, budget);
+  });
+  if (!finished) return false;
+
+  run.pageToken = page.nextPageToken;
+  run.position = undefined;
+  return page.issues.length === 0 || !run.pageToken;
+}
+
+/**
+ * Reconciles `items` from `run.position` on, saving the run after each.
+ * False when the deadline passed or the budget ran out before the last one;
+ * an item `reconcile` refuses (false) is left for the next invocation.
+ */
+async function reconcileEach<T>(
+  run: ReconciliationRun,
+  items: T[],
+  deadline: number,
+  budget: ApiBudget,
+  reconcile: (item: T) => Promise<boolean>,
+): Promise<boolean> {
+  for (let i = run.position ?? 0; i < items.length; i++) {
+    if (Date.now() >= deadline || budget.exhausted) return false;
+    if (!(await reconcile(items[i]))) return false;
+    run.position = i + 1;
+    await storage.set(RUN_KEY, run);
+  }
+  return true;
+}
+
+/** Recomputes one issue and counts the outcome; false, counting nothing, when the budget cut it short. */
+async function reconcileIssue(
+  run: ReconciliationRun,
+  issueKey: string,
+  before: IssueMetrics | undefined,
+  budget: ApiBudget,
+): Promise<boolean> {
+  const available = budget.remaining;
+  let after: IssueMetrics | null;
+  try {
+    after = await rebuildRollup(issueKey, budget);
+  } catch (err: any) {
+    if (cutShortByBudget(budget, available)) return false;
+    run.failed++;
+    if (run.failures.length < MAX_REPORTED_FAILURES) {
+      run.failures.push({ issueKey, error: String(err?.message ?? err) });
+    }
+    return true;
+  }
+  if (cutShortByBudget(budget, available)) return false;
+
+  if (!after && !before) {
+    // A property-only issue without descendants still carries a stale property
+    await clearMetrics(issueKey, true);
+    run.changed++;
+  } else if (sameResults(before, after)) {
+    run.unchanged++;
+  } else {
+    run.changed++;
+  }
+  return true;
+}
+
+/** Compares what each metric shows, ignoring when it was computed. */
+function sameResults(before: IssueMetrics | undefined, after: IssueMetrics | null): boolean {
+  if (!before?.results || !after) return false;
+  const ids = Object.keys(after.results);
+  if (ids.length !== Object.keys(before.results).length) return false;
+  return ids.every((id) => {
+    const a = before.results[id];
+    const b = after.results[id];
+    return a !== undefined && a.value === b.value && a.label === b.label && a.color === b.color;
+  });
+}
@@ -0,0 +1,610 @@
+/**
+ * rollup.ts — Computes and persists metric rollups for parent issues.
+ *
+ * A full recompute fetches the subtree and stores, next to the results, the
+ * summable totals behind them plus a snapshot of every direct child. Field
+ * edits on a child can then be applied as a delta up the ancestor chain
+ * without refetching anything; whenever that isn't possible the affected
+ * ancestor falls back to a full recompute.
+ */
+import api, { route, storage } from '@forge/api';
+import {
+  getDescendants,
+  getIssueHeader,
+  getParentKey,
+  isNativeOnly,
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_STORY_POINTS_FIELD,
+} from './hierarchy';
+import {
+  addTotals,
+  burnTotals,
+  canComputeFromTotals,
+  computeAggregate,
+  computeFromTotals,
+  extractFieldReferences,
+  snapshotIssue,
+  snapshotTotals,
+  sumTotals,
+  sumTotalsByDepth,
+} from './formulas';
+import {
+  getMaxConfiguredDepth,
+  getResolvedDefinitions,
+  getStatusSemantics,
+  getTraversalStrategies,
+} from './config';
+import { getSemanticsFields, semanticsFingerprint } from './statuses';
+import { filterDescendants, filterToJql, getFilterFields, hasFilter } from './filters';
+import { deleteHistory, getBurnSamples, recordHistory } from './history';
+import { buildBreakdown } from './breakdown';
+import { isStructuralChange } from './changes';
+import type { ChangelogItem } from './changes';
+import type {
+  ApiBudget,
+  BurnTotals,
+  DescendantSet,
+  ForecastTimeline,
+  IssueMetrics,
+  IssueSnapshot,
+  IssueTriggerEvent,
+  MetricBreakdown,
+  MetricDefinition,
+  MetricResult,
+  MetricTotals,
+  ResultCompleteness,
+  RollupState,
+  RollupTotals,
+  StoredBreakdown,
+} from './types';
+
+// ─── Storage Keys ───────────────────────────────────────────────────────────
+const metricsKey = (issueKey: string) => `metrics-${issueKey}`;
+const rollupKey = (issueKey: string) => `rollup-${issueKey}`;
+const breakdownKey = (issueKey: string) => `breakdown-${issueKey}`;
+/** Child → parent index, so moved and deleted issues can find their old parent. */
+const parentIndexKey = (issueKey: string) => `parent-${issueKey}`;
+
+/** Status name → status category key, learned from full recomputes. */
+const STATUS_CATEGORIES_KEY = 'status-categories';
+
+/** Changelog time-tracking fields, mapped to their IssueSnapshot property. */
+const TIME_FIELDS: Record<string, 'originalEstimate' | 'timeSpent' | 'remainingEstimate'> = {
+  timeoriginalestimate: 'originalEstimate',
+  timespent: 'timeSpent',
+  timeestimate: 'remainingEstimate',
+};
+
+// ─── Full Recompute ─────────────────────────────────────────────────────────
+
+/**
+ * Full recompute that logs failures instead of throwing; see rebuildRollup.
+ */
+export async function recomputeForParent(
+  parentKey: string,
+  budget: ApiBudget,
+): Promise<IssueMetrics | null> {
+  try {
+    return await rebuildRollup(parentKey, budget);
+  } catch (err) {
+    console.error(`Recomputation failed for ${parentKey}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Evaluates every metric definition — with the overrides for the parent's
+ * project and issue type applied — and stores the results together under
+ * `metrics-<parentKey>`. Descendants are fetched once per distinct
+ * (depth, story points field, extra fields, filter) combination, taking
+ * their Jira calls from the invocation's `budget`.
+ *
+ * Returns null, after clearing anything stored, when the issue has no
+ * descendants. When the recompute fails, results stored earlier are kept
+ * but flagged stale, and the error is rethrown.
+ */
+export async function rebuildRollup(
+  parentKey: string,
+  budget: ApiBudget,
+): Promise<IssueMetrics | null> {
+  try {
+    return await computeRollup(parentKey, budget);
+  } catch (err) {
+    await markStale(parentKey, err);
+    throw err;
+  }
+}
+
+/** rebuildRollup without the stale flagging. */
+async function computeRollup(parentKey: string, budget: ApiBudget): Promise<IssueMetrics | null> {
+  const startedAt = new Date().toISOString();
+  const { scope, parentKey: grandparentKey, dueDate } = await getIssueHeader(parentKey);
+  const definitions = await getResolvedDefinitions(scope);
+  const strategies = await getTraversalStrategies();
+  const previousState: RollupState | undefined = await storage.get(rollupKey(parentKey));
+  const fetches = new Map<string, Promise<DescendantSet>>();
+  const results: Record<string, MetricResult> = {};
+  const totals: Record<string, MetricTotals> = {};
+  const children: Record<string, IssueSnapshot> = {};
+  const statuses: Record<string, string> = {};
+  const burn: Record<string, BurnTotals> = {};
+  const breakdowns: Record<string, MetricBreakdown> = {};
+  let hasDescendants = false;
+  // Why a search was cut short; with nothing found, "no descendants" can't be told apart
+  let cutShort: string | undefined;
+
+  for (const definition of definitions) {
+    const maxDepth = definition.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const storyPointsField = definition.storyPointsField ?? DEFAULT_STORY_POINTS_FIELD;
+    const semantics = definition.statusSemantics;
+    const extraFields = [
+      ...(definition.type === 'custom' ? extractFieldReferences(definition.formula ?? '') : []),
+      ...getSemanticsFields(semantics),
+      ...getFilterFields(definition.filter),
+    ].sort();
+    const filterJql = filterToJql(definition.filter);
+    const fetchKey = `${maxDepth}|${storyPointsField}|${extraFields.join(',')}|${filterJql}`;
+    if (!fetches.has(fetchKey)) {
+      fetches.set(
+        fetchKey,
+        getDescendants(parentKey, budget, maxDepth, storyPointsField, extraFields, filterJql, strategies),
+      );
+    }
+
+    const fetched = await fetches.get(fetchKey)!;
+    const descendants = filterDescendants(fetched.issues, definition.filter);
+    if (descendants.length > 0) hasDescendants = true;
+    if (fetched.truncated.includes('error')) cutShort = fetched.lastError;
+    else if (fetched.truncated.includes('budget')) cutShort ??= 'API call budget used up';
+    const completeness = toCompleteness(fetched, startedAt);
+    const timeline = await loadTimeline(parentKey, definition, storyPointsField, dueDate);
+    results[definition.id] = {
+      ...computeAggregate(descendants, definition, timeline),
+      metricId: definition.id,
+      metricName: definition.name,
+      completeness,
+    };
+
+    const snapshots = descendants.map((issue) =>
+      snapshotIssue(issue, [storyPointsField], semantics?.flagField),
+    );
+    const depths = descendants.map((issue) => issue.depth);
+    totals[definition.id] = {
+      maxDepth,
+      storyPointsField,
+      totals: sumTotals(snapshots, storyPointsField, semantics),
+      byDepth: sumTotalsByDepth(snapshots, depths, storyPointsField, semantics),
+      semantics: semanticsFingerprint(semantics),
+      completeness,
+    };
+    if (timeline) burn[storyPointsField] = burnTotals(totals[definition.id].totals);
+    breakdowns[definition.id] = buildBreakdown(
+      parentKey,
+      descendants,
+      definition.type,
+      storyPointsField,
+      semantics,
+    );
+
+    snapshots.forEach((snapshot, i) => {
+      statuses[snapshot.status] = snapshot.statusCategory;
+      if (descendants[i].depth !== 1) return;
+      const existing = children[snapshot.key];
+      if (existing) Object.assign(existing.points, snapshot.points);
+      else children[snapshot.key] = snapshot;
+    });
+  }
+
+  // No children found because the searches failed or weren't made → keep what is stored
+  if (!hasDescendants && cutShort) throw new Error(cutShort);
+
+  await updateParentIndex(parentKey, previousState?.children ?? {}, children);
+
+  // No children → nothing to aggregate
+  if (!hasDescendants) {
+    await clearMetrics(parentKey, previousState !== undefined);
+    return null;
+  }
+
+  const metrics: IssueMetrics = { results, updatedAt: new Date().toISOString() };
+  await storeMetrics(parentKey, metrics, burn);
+  const breakdown: StoredBreakdown = { metrics: breakdowns, updatedAt: metrics.updatedAt };
+  await storage.set(breakdownKey(parentKey), breakdown);
+
+  const state: RollupState = {
+    parentKey: grandparentKey,
+    scope,
+    metrics: totals,
+    children,
+    dueDate,
+    updatedAt: metrics.updatedAt,
+  };
+  await storage.set(rollupKey(parentKey), state);
+  await rememberStatusCategories(statuses);
+
+  return metrics;
+}
+
+/**
+ * The breakdown behind one metric on `issueKey`. Delta updates don't
+ * maintain breakdowns, so one older than the stored results is rebuilt
+ * with a full recompute first.
+ */
+export async function getBreakdown(
+  issueKey: string,
+  metricId: string,
+  budget: ApiBudget,
+): Promise<MetricBreakdown | null> {
+  const [metrics, stored]: [IssueMetrics | undefined, StoredBreakdown | undefined] =
+    await Promise.all([storage.get(metricsKey(issueKey)), storage.get(breakdownKey(issueKey))]);
+  if (!metrics) return null;
+
+  let current = stored;
+  if (!current || current.updatedAt < metrics.updatedAt) {
+    await rebuildRollup(issueKey, budget);
+    current = await storage.get(breakdownKey(issueKey));
+  }
+  return current?.metrics[metricId] ?? null;
+}
+
+// ─── Incremental Updates ────────────────────────────────────────────────────
+
+/**
+ * Applies a field edit on one issue to the stored totals of each of its
+ * ancestors, using the changelog to work out the issue's new contribution.
+ * Returns the ancestors whose totals can't take the delta (no stored state,
+ * changed settings, formulas over individual descendants); the caller
+ * queues them for a full recompute.
+ *
+ * Returns null — and touches nothing — when the event itself can't be
+ * applied as a delta (no changelog, the issue moved, the previous snapshot
+ * is missing, or a status whose category is unknown); the caller should
+ * then recompute the whole chain. Deltas follow the native parent chain
+ * only, so with links or custom parent fields configured every event is
+ * recomputed.
+ *
+ * Concurrent deltas to the same ancestor can race; the stored totals are
+ * rebuilt from scratch by the next full recompute of that ancestor.
+ */
+export async function applyIncrementalUpdate(event: IssueTriggerEvent): Promise<string[] | null> {
+  const items = event.changelog?.items;
+  const issueKey = event.issue?.key;
+  if (!items?.length || !issueKey) return null;
+
+  try {
+    // An issue may have several parents; the stored chain knows only one
+    if (!isNativeOnly(await getTraversalStrategies())) return null;
+
+    const parentKey = await getParentKey(issueKey);
+    // Not part of any rollup; its own metrics only depend on its children
+    if (!parentKey) return [];
+
+    const parentState: RollupState | undefined = await storage.get(rollupKey(parentKey));
+    const previous = parentState?.children?.[issueKey];
+    if (!previous) return null;
+
+    const statusCategories: Record<string, string> =
+      (await storage.get(STATUS_CATEGORIES_KEY)) ?? {};
+    const { flagField } = await getStatusSemantics();
+    const next = applyChangelog(previous, items, statusCategories, flagField);
+    if (!next) return null;
+
+    const maxDepth = await getMaxConfiguredDepth();
+    const toRecompute: string[] = [];
+    let key: string | null = parentKey;
+    let state: RollupState | undefined = parentState;
+
+    for (let distance = 1; key && distance <= maxDepth; distance++) {
+      const applied = state ? await applyDelta(key, state, issueKey, previous, next, distance) : false;
+      if (!applied) {
+        console.log(`Incremental update not possible for ${key}; queueing a recompute`);
+        toRecompute.push(key);
+      }
+
+      // Without stored state the parent is read from Jira
+      key = state ? state.parentKey : await getParentKey(key);
+      state = key ? await storage.get(rollupKey(key)) : undefined;
+    }
+
+    return toRecompute;
+  } catch (err) {
+    console.warn(`Incremental update failed for ${issueKey}:`, err);
+    return null;
+  }
+}
+
+/**
+ * The snapshot after the changes in `items`, or null if they can't be
+ * applied: a move within the hierarchy, or a status we haven't seen before.
+ * `flagField` is the status mapping's flag field, if it has one. Fields
+ * that don't feed the totals are ignored.
+ */
+export function applyChangelog(
+  snapshot: IssueSnapshot,
+  items: ChangelogItem[],
+  statusCategories: Record<string, string>,
+  flagField?: string,
+): IssueSnapshot | null {
+  const next: IssueSnapshot = { ...snapshot, points: { ...snapshot.points } };
+
+  for (const item of items) {
+    if (isStructuralChange(item)) return null;
+    const field = item.field.toLowerCase();
+    const fieldId = item.fieldId?.toLowerCase();
+
+    if (field === 'status') {
+      const status = item.toString ?? '';
+      const category = statusCategories[status];
+      if (category === undefined) return null;
+      next.status = status;
+      next.statusCategory = category;
+      continue;
+    }
+
+    if (field === 'labels') {
+      next.labels = (item.toString ?? '').split(' ').filter(Boolean);
+      continue;
+    }
+
+    // Jira's flag is a checkbox field whose changelog is named "Flagged"
+    if (flagField && (fieldId === flagField.toLowerCase() || field === flagField.toLowerCase())) {
+      next.flagged = !!item.toString;
+      continue;
+    }
+
+    const timeField = TIME_FIELDS[fieldId ?? field];
+    if (timeField) {
+      next[timeField] = toNumber(item.to ?? item.toString);
+      continue;
+    }
+
+    const pointsField = Object.keys(next.points).find(
+      (f) => f.toLowerCase() === field || f.toLowerCase() === fieldId,
+    );
+    if (pointsField) next.points[pointsField] = toNumber(item.toString);
+  }
+
+  return next;
+}
+
+/**
+ * Shifts each metric's totals on `parentKey` by next − previous (only for
+ * metrics deep enough to include the changed issue) and stores the new
+ * results. Returns false when any metric needs a full recompute.
+ */
+async function applyDelta(
+  parentKey: string,
+  state: RollupState,
+  issueKey: string,
+  previous: IssueSnapshot,
+  next: IssueSnapshot,
+  distance: number,
+): Promise<boolean> {
+  const definitions = await getResolvedDefinitions(state.scope);
+  const totals: Record<string, MetricTotals> = {};
+  const results: Record<string, MetricResult> = {};
+  const burn: Record<string, BurnTotals> = {};
+
+  for (const definition of definitions) {
+    const stored = state.metrics[definition.id];
+    if (!stored || !matchesSettings(stored, definition)) return false;
+    if (!canComputeFromTotals(definition)) return false;
+    // Whether the issue (or one above it) passes the filter isn't stored
+    if (hasFilter(definition.filter)) return false;
+    if (!(stored.storyPointsField in previous.points)) return false;
+    // States stored before forecasts and levels existed lack the due date and level totals
+    if (definition.type === 'forecastCompletion' && state.dueDate === undefined) return false;
+    if (!stored.byDepth) return false;
+
+    const semantics = definition.statusSemantics;
+    const shift = (base: RollupTotals) =>
+      addTotals(
+        addTotals(base, snapshotTotals(next, stored.storyPointsField, semantics)),
+        snapshotTotals(previous, stored.storyPointsField, semantics),
+        -1,
+      );
+    const inRange = distance <= stored.maxDepth;
+    if (inRange && !stored.byDepth[distance - 1]) return false;
+    const updated = inRange ? shift(stored.totals) : stored.totals;
+    const byDepth = stored.byDepth.map((level, i) => (inRange && i === distance - 1 ? shift(level) : level));
+
+    const timeline = await loadTimeline(parentKey, definition, stored.storyPointsField, state.dueDate);
+    totals[definition.id] = { ...stored, totals: updated, byDepth };
+    results[definition.id] = {
+      ...computeFromTotals(updated, definition, timeline, byDepth),
+      metricId: definition.id,
+      metricName: definition.name,
+      completeness: stored.completeness,
+    };
+    if (timeline) burn[stored.storyPointsField] = burnTotals(updated);
+  }
+
+  const metrics: IssueMetrics = { results, updatedAt: new Date().toISOString() };
+  await storeMetrics(parentKey, metrics, burn);
+
+  const children =
+    distance === 1 ? { ...state.children, [issueKey]: next } : state.children;
+  await storage.set(rollupKey(parentKey), {
+    ...state,
+    metrics: totals,
+    children,
+    updatedAt: metrics.updatedAt,
+  });
+  return true;
+}
+
+// ─── Parent Index ───────────────────────────────────────────────────────────
+
+/**
+ * The parent `issueKey` had when its parent was last recomputed. Unlike
+ * getParentKey this still answers after the issue was moved or deleted.
+ */
+export async function getIndexedParentKey(issueKey: string): Promise<string | null> {
+  return (await storage.get(parentIndexKey(issueKey))) ?? null;
+}
+
+/**
+ * Removes everything stored for a deleted issue: its results, totals,
+ * breakdown, history and parent index entry.
+ */
+export async function forgetIssue(issueKey: string): Promise<void> {
+  await storage.delete(metricsKey(issueKey));
+  await storage.delete(rollupKey(issueKey));
+  await storage.delete(breakdownKey(issueKey));
+  await deleteHistory(issueKey);
+  await storage.delete(parentIndexKey(issueKey));
+}
+
+/**
+ * Points new children at `parentKey` and drops entries for children that
+ * left, unless another parent has claimed them since. Unchanged children
+ * cost nothing, so a steady-state recompute doesn't write the index.
+ */
+async function updateParentIndex(
+  parentKey: string,
+  previous: Record<string, IssueSnapshot>,
+  current: Record<string, IssueSnapshot>,
+): Promise<void> {
+  for (const childKey of Object.keys(current)) {
+    if (!(childKey in previous)) await storage.set(parentIndexKey(childKey), parentKey);
+  }
+  for (const childKey of Object.keys(previous)) {
+    if (childKey in current) continue;
+    if ((await getIndexedParentKey(childKey)) === parentKey) {
+      await storage.delete(parentIndexKey(childKey));
+    }
+  }
+}
+
+// ─── Persistence ────────────────────────────────────────────────────────────
+
+/**
+ * Stores the results in Forge Storage (fast reads for the field resolver),
+ * adds them and any forecast `burn` totals to the issue's history and
+ * mirrors them to the `isurollup` issue property.
+ */
+async function storeMetrics(
+  parentKey: string,
+  metrics: IssueMetrics,
+  burn: Record<string, BurnTotals>,
+): Promise<void> {
+  await storage.set(metricsKey(parentKey), metrics);
+  await recordHistory(parentKey, metrics, burn);
+
+  // Also write as an issue property (for JQL / external tools)
+  try {
+    await api.asApp().requestJira(
+      route`/rest/api/3/issue/${parentKey}/properties/isurollup`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(metrics),
+      },
+    );
+  } catch (propErr) {
+    // Non-fatal — the field still works via Forge Storage
+    console.warn(`Could not set issue property on ${parentKey}:`, propErr);
+  }
+}
+
+/**
+ * Flags the stored results of `issueKey` stale with the error of a failed
+ * recompute, keeping their values. The stored totals are flagged too, so
+ * delta updates keep the flag until a full recompute succeeds.
+ */
+async function markStale(issueKey: string, err: any): Promise<void> {
+  try {
+    const [metrics, state]: [IssueMetrics | undefined, RollupState | undefined] = await Promise.all([
+      storage.get(metricsKey(issueKey)),
+      storage.get(rollupKey(issueKey)),
+    ]);
+    if (!metrics) return;
+
+    const lastError = String(err?.message ?? err);
+    const flag = (completeness: ResultCompleteness | undefined): ResultCompleteness => ({
+      // Results stored before completeness was tracked
+      scanned: 0,
+      truncated: [],
+      computedFrom: metrics.updatedAt,
+      ...completeness,
+      stale: true,
+      lastError,
+    });
+    for (const result of Object.values(metrics.results)) result.completeness = flag(result.completeness);
+    await storage.set(metricsKey(issueKey), metrics);
+
+    if (!state) return;
+    for (const stored of Object.values(state.metrics)) stored.completeness = flag(stored.completeness);
+    await storage.set(rollupKey(issueKey), state);
+  } catch (storageErr) {
+    console.warn(`Could not flag the results of ${issueKey} as stale:`, storageErr);
+  }
+}
+
+/**
+ * Removes the stored results, totals and breakdown for an issue that no
+ * longer has descendants. The issue property is only deleted when `withProperty` is
+ * set, which saves a request for issues that never had one.
+ */
+export async function clearMetrics(issueKey: string, withProperty: boolean): Promise<void> {
+  await storage.delete(metricsKey(issueKey));
+  await storage.delete(rollupKey(issueKey));
+  await storage.delete(breakdownKey(issueKey));
+  if (!withProperty) return;
+
+  try {
+    await api.asApp().requestJira(
+      route`/rest/api/3/issue/${issueKey}/properties/isurollup`,
+      { method: 'DELETE' },
+    );
+  } catch (propErr) {
+    console.warn(`Could not delete issue property on ${issueKey}:`, propErr);
+  }
+}
+
+/** Records status categories not seen before. */
+async function rememberStatusCategories(statuses: Record<string, string>): Promise<void> {
+  const known: Record<string, string> = (await storage.get(STATUS_CATEGORIES_KEY)) ?? {};
+  const changed = Object.entries(statuses).some(([name, category]) => known[name] !== category);
+  if (changed) await storage.set(STATUS_CATEGORIES_KEY, { ...known, ...statuses });
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** The burn history and due date a forecast reads; undefined for other metrics. */
+async function loadTimeline(
+  parentKey: string,
+  definition: MetricDefinition,
+  storyPointsField: string,
+  dueDate: string | null | undefined,
+): Promise<ForecastTimeline | undefined> {
+  if (definition.type !== 'forecastCompletion') return undefined;
+  return { samples: await getBurnSamples(parentKey, storyPointsField), dueDate };
+}
+
+/**
+ * True when the stored totals were built with the definition's settings
+ * and the current status mapping.
+ */
+function matchesSettings(stored: MetricTotals, definition: MetricDefinition): boolean {
+  return (
+    stored.maxDepth === (definition.maxDepth ?? DEFAULT_MAX_DEPTH) &&
+    stored.storyPointsField === (definition.storyPointsField ?? DEFAULT_STORY_POINTS_FIELD) &&
+    stored.semantics === semanticsFingerprint(definition.statusSemantics)
+  );
+}
+
+function toNumber(raw: string | null | undefined): number {
+  const n = Number(raw);
+  return raw != null && raw !== '' && Number.isFinite(n) ? n : 0;
+}
+
+function toCompleteness(fetched: DescendantSet, computedFrom: string): ResultCompleteness {
+  return {
+    scanned: fetched.issues.length,
+    expected: fetched.expected,
+    truncated: fetched.truncated,
+    lastError: fetched.lastError,
+    computedFrom,
+  };
+}
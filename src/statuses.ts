@@ -0,0 +1,86 @@
+/**
+ * statuses.ts — What an issue's status, flag and labels mean for the
+ * metrics: done, in progress or to do, blocked, or left out altogether.
+ *
+ * The mapping is configured site-wide on the admin page. The defaults
+ * reproduce Jira's status categories and a status named "Blocked".
+ */
+import type { IssueSnapshot, ProgressSegments, StatusSemantics } from './types';
+
+/** The parts of an issue its classification reads. */
+export type StatusFacts = Pick<IssueSnapshot, 'status' | 'statusCategory' | 'labels' | 'flagged'>;
+
+export const DEFAULT_STATUS_SEMANTICS: StatusSemantics = {
+  doneCategories: ['done'],
+  doneStatuses: [],
+  excludedStatuses: [],
+  blockedStatuses: ['Blocked'],
+  blockedLabels: [],
+};
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Progress state of an issue, or null when its status is excluded. A status
+ * counts as done when it is listed by name or its category is; otherwise
+ * the `indeterminate` category is in progress and anything else to do.
+ */
+export function classifyStatus(
+  facts: StatusFacts,
+  semantics: StatusSemantics = DEFAULT_STATUS_SEMANTICS,
+): keyof ProgressSegments | null {
+  if (includes(semantics.excludedStatuses, facts.status)) return null;
+  if (includes(semantics.doneStatuses, facts.status)) return 'done';
+  if (includes(semantics.doneCategories, facts.statusCategory)) return 'done';
+  return facts.statusCategory === 'indeterminate' ? 'inProgress' : 'todo';
+}
+
+/**
+ * True when an open issue has a blocked status, a blocked label, or — with a
+ * flag field configured — is flagged. Done issues are never blocked, so a
+ * flag left on a closed issue doesn't count.
+ */
+export function isBlocked(
+  facts: StatusFacts,
+  semantics: StatusSemantics = DEFAULT_STATUS_SEMANTICS,
+): boolean {
+  const state = classifyStatus(facts, semantics);
+  if (state === null || state === 'done') return false;
+  return (
+    includes(semantics.blockedStatuses, facts.status) ||
+    facts.labels.some((label) => includes(semantics.blockedLabels, label)) ||
+    (!!semantics.flagField && facts.flagged)
+  );
+}
+
+/** Issue fields the mapping reads beyond status: labels and the flag field. */
+export function getSemanticsFields(semantics: StatusSemantics = DEFAULT_STATUS_SEMANTICS): string[] {
+  const fields: string[] = [];
+  if (semantics.blockedLabels.length > 0) fields.push('labels');
+  if (semantics.flagField) fields.push(semantics.flagField);
+  return fields;
+}
+
+/**
+ * Stable string for the mapping, stored with rollup totals so totals
+ * counted under another mapping are never shifted by a delta.
+ */
+export function semanticsFingerprint(semantics: StatusSemantics = DEFAULT_STATUS_SEMANTICS): string {
+  const sorted = (values: string[]) => [...values].map((v) => v.toLowerCase()).sort();
+  return JSON.stringify([
+    sorted(semantics.doneCategories),
+    sorted(semantics.doneStatuses),
+    sorted(semantics.excludedStatuses),
+    sorted(semantics.blockedStatuses),
+    sorted(semantics.blockedLabels),
+    semantics.flagField ?? null,
+  ]);
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Case-insensitive, as status names and labels are compared elsewhere. */
+function includes(values: string[], value: string): boolean {
+  const lower = value.toLowerCase();
+  return values.some((v) => v.toLowerCase() === lower);
+}
@@ -7,17 +7,72 @@ export interface MetricResult {
   color: 'green' | 'yellow' | 'red' | 'blue' | 'grey';
   /** The formula type that produced this result. */
   formulaType?: FormulaType;
+  /** To-do / in-progress / done split in percent (sums to 100), for progress bars. */
+  segments?: ProgressSegments;
+  /** Id and name of the MetricDefinition that produced this result. */
+  metricId?: string;
+  metricName?: string;
+  /** Subtotals per hierarchy level: children, grandchildren, … */
+  levels?: LevelSubtotal[];
+  /** How complete and current the descendants behind the value are. */
+  completeness?: ResultCompleteness;
   updatedAt: string;
 }
 
+/**
+ * Why descendants may be missing: issues exist below the depth limit, the
+ * API call budget ran out, or a search kept failing.
+ */
+export type TruncationReason = 'depth' | 'budget' | 'error';
+
+export interface ResultCompleteness {
+  /** Descendants read from Jira. */
+  scanned: number;
+  /**
+   * Jira's estimate of the descendants there are: those scanned plus what
+   * the searches that were cut short would have returned. A lower bound if
+   * whole levels went unsearched; unset when nothing was cut short or Jira
+   * couldn't say.
+   */
+  expected?: number;
+  truncated: TruncationReason[];
+  /** The error behind an `error` truncation or a failed recompute. */
+  lastError?: string;
+  /** When the descendants were read; delta updates since then don't change it. */
+  computedFrom: string;
+  /** Set when the latest recompute failed, so the value may be out of date. */
+  stale?: boolean;
+}
+
+export interface LevelSubtotal {
+  /** 1 = direct children, 2 = grandchildren, … */
+  depth: number;
+  childCount: number;
+  doneCount: number;
+  totalStoryPoints: number;
+  donePoints: number;
+}
+
+export interface ProgressSegments {
+  todo: number;
+  inProgress: number;
+  done: number;
+}
+
 // ─── Field Configuration ────────────────────────────────────────────────────
 export type FormulaType =
   | 'storyPointSum'
   | 'percentComplete'
+  | 'percentCompleteByPoints'
+  | 'statusProgress'
   | 'undoneWork'
   | 'storyPointAverage'
   | 'childCount'
   | 'blockedCount'
+  | 'timeSpentSum'
+  | 'remainingEstimate'
+  | 'estimateAccuracy'
+  | 'forecastCompletion'
   | 'custom';
 
 export interface FieldConfig {
@@ -30,12 +85,321 @@ export interface FieldConfig {
   maxDepth?: number;
   /** Story points field name/ID (e.g. 'story_points' or 'customfield_10016'). */
   storyPointsField?: string;
+  /** Working hours per day for duration labels such as `3d 4h` (default 8). */
+  hoursPerDay?: number;
+  /** The site's status mapping; attached when definitions are resolved. */
+  statusSemantics?: StatusSemantics;
+  /** Which descendants the metric includes; unset includes them all. */
+  filter?: DescendantFilter;
+}
+
+/** Values of one field that a descendant must have (or must not have). */
+export interface FilterCondition {
+  /** Matched case-insensitively; an issue matches when it has any of them. */
+  values: string[];
+  /** Leave matching issues out instead of keeping only them. */
+  exclude?: boolean;
+}
+
+/**
+ * Narrows the descendants a metric includes. An issue left out is skipped
+ * together with everything below it.
+ */
+export interface DescendantFilter {
+  issueTypes?: FilterCondition;
+  statuses?: FilterCondition;
+  labels?: FilterCondition;
+  components?: FilterCondition;
+  /** Extra JQL clause every descendant must match, e.g. `priority != Lowest`. */
+  jql?: string;
+}
+
+// ─── Hierarchy Traversal ────────────────────────────────────────────────────
+/**
+ * A relationship followed from a parent down to its children. `maxDepth`
+ * limits the levels (1 = direct children) at which it is followed; unset
+ * follows it as deep as the metric goes.
+ */
+export type TraversalStrategy =
+  /** Jira's `parent` field (sub-tasks, epics, team-managed hierarchies). */
+  | { kind: 'parent'; maxDepth?: number }
+  /** A custom parent field such as Advanced Roadmaps "Parent Link". */
+  | { kind: 'parentLink'; field: string; maxDepth?: number }
+  /**
+   * Issue links of one type. `direction` is the side of the parent's links
+   * the children are on: for "Implements", `inward` follows "is implemented by".
+   */
+  | { kind: 'issueLink'; linkType: string; direction: 'inward' | 'outward'; maxDepth?: number };
+
+/** What getDescendants found, and why it may have missed some. */
+export interface DescendantSet {
+  issues: JiraIssue[];
+  truncated: TruncationReason[];
+  /** See ResultCompleteness.expected. */
+  expected?: number;
+  lastError?: string;
+}
+
+/**
+ * Jira REST calls an invocation may still make. Shared by every traversal
+ * and recompute of one Forge invocation, so it stays within its time limit.
+ */
+export interface ApiBudget {
+  remaining: number;
+  /** Set once no calls remain; later traversals find nothing. */
+  exhausted: boolean;
+}
+
+// ─── Status Semantics ───────────────────────────────────────────────────────
+/**
+ * Which statuses count as done, which issues count as blocked, and which
+ * are left out of every metric. Names and labels match case-insensitively.
+ */
+export interface StatusSemantics {
+  /** Status categories (`new`, `indeterminate`, `done`) whose statuses count as done. */
+  doneCategories: string[];
+  /** Statuses that count as done whatever their category. */
+  doneStatuses: string[];
+  /** Statuses not counted at all, e.g. "Won't Do". Takes precedence over done. */
+  excludedStatuses: string[];
+  /** Statuses that count as blocked, e.g. "On Hold". */
+  blockedStatuses: string[];
+  /** Labels that mark an issue as blocked. */
+  blockedLabels: string[];
+  /** Flag field id (e.g. `customfield_10021`); flagged issues count as blocked. */
+  flagField?: string;
+}
+
+// ─── Metric Definitions ─────────────────────────────────────────────────────
+/** A named rollup. Several definitions are evaluated side by side per issue. */
+export interface MetricDefinition extends FieldConfig {
+  /** Stable identifier used in storage keys and by the Custom UI. */
+  id: string;
+  /** Display name shown in the admin page and the field-view selector. */
+  name: string;
+}
+
+// ─── Configuration Scopes ───────────────────────────────────────────────────
+/** Where an issue sits, for picking the config overrides that apply to it. */
+export interface IssueScope {
+  projectKey?: string;
+  issueType?: string;
+}
+
+/**
+ * Settings layered on top of the site-wide metric definitions.
+ * Resolution order: site default → project → issue type → project + issue type.
+ */
+export interface ConfigOverride {
+  /** Derived from the scope, so one override exists per scope and metric. */
+  id: string;
+  /** Project key the override applies to; omitted means every project. */
+  projectKey?: string;
+  /** Issue type name the override applies to; omitted means every type. */
+  issueType?: string;
+  /** Restrict to one metric; omitted means every metric. */
+  metricId?: string;
+  settings: Partial<Pick<FieldConfig, 'thresholds' | 'maxDepth' | 'storyPointsField'>>;
+}
+
+/** Everything stored under `metrics-<issueKey>`: one result per definition. */
+export interface IssueMetrics {
+  /** Results keyed by MetricDefinition.id. */
+  results: Record<string, MetricResult>;
+  updatedAt: string;
+}
+
+/** Number of issues and their story points. */
+export interface BreakdownBucket {
+  count: number;
+  points: number;
+}
+
+/** A direct child of the parent, with the subtotal of its own subtree. */
+export interface BreakdownChild {
+  key: string;
+  summary: string;
+  issueType: string;
+  status: string;
+  /** The child and its descendants within the metric's depth. */
+  subtotal: BreakdownBucket & { doneCount: number; blockedCount: number };
+}
+
+/** What a metric was computed from, for the field view's drill-down. */
+export interface MetricBreakdown {
+  byProgress: Record<keyof ProgressSegments, BreakdownBucket>;
+  byIssueType: Record<string, BreakdownBucket>;
+  children: BreakdownChild[];
+  /** Issues a count metric counted (e.g. the blocked ones), capped. */
+  issueKeys?: string[];
+  /** Total before capping, when `issueKeys` is truncated. */
+  issueKeyCount?: number;
+}
+
+/** Stored under `breakdown-<issueKey>` by every full recompute. */
+export interface StoredBreakdown {
+  /** Keyed by MetricDefinition.id. */
+  metrics: Record<string, MetricBreakdown>;
+  updatedAt: string;
+}
+
+/** Metric values of one issue at a point in time. */
+export interface HistoryPoint {
+  at: string;
+  /** MetricResult.value keyed by MetricDefinition.id. */
+  values: Record<string, number>;
+  /** Work remaining and done, keyed by story points field; forecasts only. */
+  burn?: Record<string, BurnTotals>;
+}
+
+export interface BurnTotals {
+  remainingPoints: number;
+  doneCount: number;
+}
+
+/** BurnTotals of a parent at a point in time. */
+export interface BurnSample extends BurnTotals {
+  at: string;
+}
+
+/** The time dimension of metrics that project forward (forecasts). */
+export interface ForecastTimeline {
+  /** Earlier samples, oldest first; the current totals are added on top. */
+  samples: BurnSample[];
+  /** The parent's due date (`YYYY-MM-DD`), if it has one. */
+  dueDate?: string | null;
+  /** Evaluation time in ms; defaults to now. */
+  now?: number;
+}
+
+/** Bounded time series of an issue's results, oldest first. */
+export interface MetricHistory {
+  points: HistoryPoint[];
+}
+
+/** Result of evaluating a definition against a sample issue, without saving. */
+export interface FormulaPreview {
+  result: MetricResult;
+  /** The FormulaContext variables the definition reads, with their values. */
+  variables: Record<string, number>;
+  /** Number of descendants the preview was computed from. */
+  descendantCount: number;
+}
+
+// ─── Incremental Rollups ────────────────────────────────────────────────────
+/**
+ * Summable quantities behind the preset formulas. A parent's totals are the
+ * sum of its descendants' contributions, so a change to one descendant can
+ * be applied as a delta. Time values are in seconds.
+ */
+export interface RollupTotals {
+  childCount: number;
+  totalStoryPoints: number;
+  doneCount: number;
+  inProgressCount: number;
+  donePoints: number;
+  inProgressPoints: number;
+  blockedCount: number;
+  originalEstimate: number;
+  timeSpent: number;
+  remainingEstimate: number;
+}
+
+/** The fields of one issue that feed RollupTotals. Time values in seconds. */
+export interface IssueSnapshot {
+  key: string;
+  status: string;
+  statusCategory: string;
+  /** Labels, when the status mapping reads them. */
+  labels: string[];
+  /** Whether the mapping's flag field is set. */
+  flagged: boolean;
+  /** Story points keyed by the field they were read from. */
+  points: Record<string, number>;
+  originalEstimate: number;
+  timeSpent: number;
+  remainingEstimate: number;
+}
+
+/** Totals for one metric, with the traversal settings they were built with. */
+export interface MetricTotals {
+  maxDepth: number;
+  storyPointsField: string;
+  totals: RollupTotals;
+  /** The same totals split by level; index 0 holds the direct children. */
+  byDepth?: RollupTotals[];
+  /** semanticsFingerprint() of the status mapping the totals were counted with. */
+  semantics?: string;
+  /** Carried over to the results of delta updates. */
+  completeness?: ResultCompleteness;
+}
+
+/** Stored under `rollup-<issueKey>` by every full recompute of a parent. */
+export interface RollupState {
+  parentKey: string | null;
+  scope: IssueScope;
+  /** Keyed by MetricDefinition.id. */
+  metrics: Record<string, MetricTotals>;
+  /** Snapshots of the direct children, keyed by issue key. */
+  children: Record<string, IssueSnapshot>;
+  /** The parent's own due date, for forecasts. */
+  dueDate?: string | null;
+  updatedAt: string;
+}
+
+// ─── Reconciliation ─────────────────────────────────────────────────────────
+/** Outcome of one pass of the scheduled reconciliation job. */
+export interface ReconciliationReport {
+  startedAt: string;
+  /** Unset while the pass is still running. */
+  completedAt?: string;
+  /** Results differ from what was stored (or were added / removed). */
+  changed: number;
+  unchanged: number;
+  failed: number;
+  /** The first failures of the pass. */
+  failures: Array<{ issueKey: string; error: string }>;
+  /** Set when the pass could not enumerate every issue. */
+  error?: string;
+}
+
+// ─── Backfill ───────────────────────────────────────────────────────────────
+/** A bulk recompute of the issues matching a JQL query, run in the background. */
+export interface BackfillJob {
+  id: string;
+  jql: string;
+  status: 'running' | 'completed' | 'cancelled' | 'failed';
+  startedAt: string;
+  /** Last time the job made progress; a running job that stops updating is stale. */
+  updatedAt: string;
+  completedAt?: string;
+  /** Jira's estimate of the matching issues, when it has one. */
+  total?: number;
+  /** Matching issues processed so far. */
+  processed: number;
+  /** Where the current page of results starts; unset on the first page. */
+  pageToken?: string;
+  /** Matches of the current page already processed. */
+  position?: number;
+  /** Issues that now have metrics. */
+  updated: number;
+  /** Issues without descendants, so nothing to compute. */
+  skipped: number;
+  failed: number;
+  /** The first failures of the job. */
+  failures: Array<{ issueKey: string; error: string }>;
+  /** Set when the job stopped early, e.g. the JQL was rejected. */
+  error?: string;
 }
 
 // ─── Jira Structures (partial) ──────────────────────────────────────────────
 export interface JiraIssue {
   id: string;
   key: string;
+  /** Level below the traversed parent (1 = direct child); set by getDescendants. */
+  depth?: number;
+  /** The issue it was found under; set by getDescendants. */
+  parentKey?: string;
   fields: {
     summary?: string;
     status?: {
@@ -46,19 +410,30 @@ export interface JiraIssue {
     parent?: { id: string; key: string };
     /** story_points might live under a custom field; adjust to your instance. */
     story_points?: number;
+    /** Time tracking, all in seconds. Null when not set. */
+    timeoriginalestimate?: number | null;
+    timespent?: number | null;
+    timeestimate?: number | null;
+    timetracking?: {
+      originalEstimateSeconds?: number;
+      remainingEstimateSeconds?: number;
+      timeSpentSeconds?: number;
+    };
     [customField: string]: any;
   };
 }
 
+/** One page of `/rest/api/3/search/jql` results. */
 export interface JiraSearchResponse {
-  startAt: number;
-  maxResults: number;
-  total: number;
   issues: JiraIssue[];
+  /** Fetches the next page; absent on the last one. */
+  nextPageToken?: string;
 }
 
 // ─── Trigger Event ──────────────────────────────────────────────────────────
 export interface IssueTriggerEvent {
+  /** e.g. `avi:jira:updated:issue`. */
+  eventType?: string;
   issue: {
     id: string;
     key: string;
@@ -66,7 +441,10 @@ export interface IssueTriggerEvent {
   changelog?: {
     items: Array<{
       field: string;
+      fieldId?: string;
+      from?: string | null;
       fromString: string | null;
+      to?: string | null;
       toString: string | null;
     }>;
   };
@@ -78,16 +456,42 @@ export interface IssueTriggerEvent {
 export interface FormulaContext {
   /** All descendant issues. */
   children: JiraIssue[];
-  /** Total count of descendants. */
+  /** The same context for each level alone; index 0 holds the direct children. */
+  levels?: FormulaContext[];
+  /** Field the story points were read from; row-level `storyPoints` uses it. */
+  storyPointsField?: string;
+  /** Status mapping; row-level `done` uses it. */
+  statusSemantics?: StatusSemantics;
+  /** Count of descendants, leaving out excluded statuses. */
   childCount: number;
   /** Sum of story points across all descendants. */
   totalStoryPoints: number;
-  /** Number of issues in "done" status category. */
+  /** Number of issues counted as done (the "done" status category by default). */
   doneCount: number;
-  /** Number of issues NOT in "done" status category. */
+  /** Number of issues not counted as done. */
   undoneCount: number;
   /** Remaining story points (undone issues only). */
   remainingPoints: number;
   /** Percentage complete (done / total * 100). */
   percentComplete: number;
+  /** Issues in the "new" (to-do) status category. */
+  todoCount: number;
+  /** Issues in the "indeterminate" (in-progress) status category. */
+  inProgressCount: number;
+  /** Story points of done issues. */
+  donePoints: number;
+  /** Story points of in-progress issues. */
+  inProgressPoints: number;
+  /** Percentage of story points that are done (donePoints / total * 100). */
+  percentCompleteByPoints: number;
+  /** Open issues with a blocked status, label or flag (status "Blocked" by default). */
+  blockedCount: number;
+  /** Sum of original estimates, in hours. */
+  originalEstimate: number;
+  /** Sum of logged work, in hours. */
+  timeSpent: number;
+  /** Sum of remaining estimates, in hours. */
+  remainingEstimate: number;
+  /** (timeSpent + remainingEstimate) / originalEstimate * 100; 0 without estimates. */
+  estimateAccuracy: number;
 }
@@ -99,10 +99,68 @@ const styles = `
     resize: vertical;
   }
 
+  textarea.invalid {
+    border-color: #f87462;
+  }
+
+  .formula-errors {
+    list-style: none;
+    margin-top: 8px;
+    font-size: 13px;
+    color: #ae2a19;
+  }
+
+  .formula-errors li {
+    margin-bottom: 4px;
+  }
+
   .hidden {
     display: none;
   }
 
+  .preview-inputs {
+    display: grid;
+    grid-template-columns: 1fr auto;
+    gap: 8px;
+  }
+
+  .preview-panel {
+    margin-top: 12px;
+    padding: 12px;
+    background-color: #f4f5f7;
+    border-radius: 4px;
+    font-size: 13px;
+    color: #161b22;
+  }
+
+  .preview-value {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    margin-bottom: 8px;
+    font-size: 16px;
+    font-weight: 600;
+  }
+
+  .preview-swatch {
+    width: 12px;
+    height: 12px;
+    border-radius: 50%;
+  }
+
+  .preview-swatch.green { background-color: #22a06b; }
+  .preview-swatch.yellow { background-color: #e2b203; }
+  .preview-swatch.red { background-color: #e34935; }
+  .preview-swatch.grey { background-color: #8590a2; }
+
+  .preview-variables td {
+    padding: 2px 12px 2px 0;
+  }
+
+  .preview-variables code {
+    font-family: 'Courier New', monospace;
+  }
+
   .formula-help {
     margin-top: 12px;
     padding: 12px;
@@ -190,6 +248,145 @@ const styles = `
     background-color: #ebecf0;
   }
 
+  .btn-danger {
+    margin-left: auto;
+    background-color: #ffeceb;
+    color: #ae2a19;
+  }
+
+  .btn-danger:hover {
+    background-color: #ffd5d2;
+  }
+
+  .metric-list {
+    margin-bottom: 24px;
+  }
+
+  .metric-list ul {
+    list-style: none;
+    margin: 12px 0 16px;
+  }
+
+  .metric-item {
+    display: flex;
+    justify-content: space-between;
+    width: 100%;
+    margin-bottom: 4px;
+    background-color: #fff;
+    color: #161b22;
+    border: 1px solid #dfe1e6;
+    text-align: left;
+  }
+
+  .metric-item.selected {
+    border-color: #0052cc;
+    background-color: #deebff;
+  }
+
+  .metric-item-type {
+    font-weight: 400;
+    color: #626f86;
+  }
+
+  .overrides,
+  .status-mapping {
+    margin-top: 24px;
+  }
+
+  .reconciliation,
+  .backfill {
+    margin-top: 24px;
+  }
+
+  .backfill-progress {
+    height: 8px;
+    margin: 12px 0 4px;
+    border-radius: 4px;
+    background-color: #dfe1e6;
+    overflow: hidden;
+  }
+
+  .backfill-progress div {
+    height: 100%;
+    background-color: #0052cc;
+  }
+
+  .report-counts {
+    display: flex;
+    gap: 24px;
+    margin: 12px 0;
+    font-size: 14px;
+  }
+
+  .report-counts strong {
+    display: block;
+    font-size: 20px;
+  }
+
+  .report-failures {
+    list-style: none;
+    font-size: 13px;
+    color: #ae2a19;
+  }
+
+  .override-table {
+    width: 100%;
+    border-collapse: collapse;
+    margin: 12px 0 16px;
+    font-size: 13px;
+  }
+
+  .override-table th,
+  .override-table td {
+    padding: 6px 8px;
+    text-align: left;
+    border-bottom: 1px solid #dfe1e6;
+  }
+
+  .override-table .btn-danger {
+    padding: 4px 8px;
+  }
+
+  .override-inputs {
+    display: grid;
+    grid-template-columns: 1fr 1fr 1fr;
+    gap: 8px;
+    margin: 12px 0 16px;
+  }
+
+  @media (max-width: 600px) {
+    .override-inputs {
+      grid-template-columns: 1fr;
+    }
+  }
+
+  .filter-row {
+    display: grid;
+    grid-template-columns: 140px 110px 1fr;
+    gap: 8px;
+    align-items: center;
+    margin-bottom: 8px;
+    font-size: 14px;
+  }
+
+  .strategy-row {
+    display: grid;
+    grid-template-columns: 150px 1fr 120px 90px auto;
+    gap: 8px;
+    align-items: center;
+    margin-bottom: 8px;
+    font-size: 14px;
+  }
+
+  .checkbox-label {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    margin-top: 12px;
+    font-size: 14px;
+    color: #161b22;
+  }
+
   .alert {
     padding: 12px 16px;
     border-radius: 4px;
@@ -243,12 +440,20 @@ const FORMULA_TYPES = {
   storyPointSum: 'Total Story Points',
   storyPointAverage: 'Story Point Average',
   percentComplete: '% Complete by Story',
+  percentCompleteByPoints: '% Complete by Story Points',
+  statusProgress: 'To Do / In Progress / Done',
   undoneWork: 'Remaining Work (SP)',
   childCount: 'Child Issue Count',
   blockedCount: 'Blocked Issues Count',
+  timeSpentSum: 'Total Time Logged',
+  remainingEstimate: 'Remaining Estimate',
+  estimateAccuracy: 'Estimate Accuracy (%)',
+  forecastCompletion: 'Forecast Completion Date',
   custom: 'Custom Formula',
 };
 
+const TIME_TYPES = ['timeSpentSum', 'remainingEstimate', 'estimateAccuracy'];
+
 const VARIABLES = [
   'totalStoryPoints',
   'doneCount',
@@ -256,37 +461,166 @@ const VARIABLES = [
   'childCount',
   'remainingPoints',
   'percentComplete',
+  'todoCount',
+  'inProgressCount',
+  'donePoints',
+  'inProgressPoints',
+  'percentCompleteByPoints',
+  'blockedCount',
+  'originalEstimate',
+  'timeSpent',
+  'remainingEstimate',
+  'estimateAccuracy',
+];
+
+const FUNCTIONS = ['ROUND()', 'ABS()', 'MIN()', 'MAX()', 'IF(cond, then, else)', 'DEPTH(level, expr)'];
+
+const AGGREGATES = ['COUNT(cond)', 'COUNTIF(cond)', 'SUM(x)', 'AVG(x)', 'MEDIAN(x)', 'PERCENTILE(x, p)'];
+
+const ROW_VARIABLES = [
+  'key',
+  'status',
+  'statusCategory',
+  'issuetype',
+  'labels',
+  'storyPoints',
+  'done',
+  'originalEstimate',
+  'timeSpent',
+  'remainingEstimate',
+  'field("name")',
 ];
 
-const FUNCTIONS = ['ROUND()', 'ABS()', 'MIN()', 'MAX()', 'IF(cond, then, else)'];
+const EMPTY_OVERRIDE = {
+  projectKey: '',
+  issueType: '',
+  metricId: '',
+  storyPointsField: '',
+  yellow: '',
+  red: '',
+  maxDepth: '',
+};
+
+/** Descendant filter conditions; values are entered comma-separated. */
+const FILTER_FIELDS = [
+  { key: 'issueTypes', label: 'Issue types', placeholder: 'e.g. Sub-task, Spike' },
+  { key: 'statuses', label: 'Statuses', placeholder: 'e.g. Cancelled' },
+  { key: 'labels', label: 'Labels', placeholder: 'e.g. tech-debt' },
+  { key: 'components', label: 'Components', placeholder: 'e.g. Backend, API' },
+];
 
-const OPERATORS = ['+', '-', '*', '/', '(', ')', '>', '<', '>=', '<=', '==', '!='];
+const toFilterDraft = (filter) => ({
+  ...Object.fromEntries(
+    FILTER_FIELDS.map(({ key }) => [
+      key,
+      { values: filter?.[key]?.values.join(', ') ?? '', exclude: filter?.[key]?.exclude ?? true },
+    ]),
+  ),
+  jql: filter?.jql ?? '',
+});
+
+/** Status mapping inputs; every list is entered comma-separated. */
+const SEMANTICS_FIELDS = [
+  { key: 'doneCategories', label: 'Done status categories', placeholder: 'done' },
+  { key: 'doneStatuses', label: 'Also done', placeholder: 'e.g. Released, Verified' },
+  { key: 'excludedStatuses', label: 'Not counted', placeholder: "e.g. Won't Do, Duplicate" },
+  { key: 'blockedStatuses', label: 'Blocked statuses', placeholder: 'e.g. Blocked, On Hold, Impeded' },
+  { key: 'blockedLabels', label: 'Blocked labels', placeholder: 'e.g. blocked, waiting-on-vendor' },
+  { key: 'flagField', label: 'Flag field', placeholder: 'e.g. customfield_10021' },
+];
+
+const toSemanticsDraft = (semantics) =>
+  Object.fromEntries(
+    SEMANTICS_FIELDS.map(({ key }) => {
+      const value = semantics?.[key];
+      return [key, Array.isArray(value) ? value.join(', ') : value || ''];
+    }),
+  );
+
+/** Hierarchy relationships the traversal can follow. */
+const STRATEGY_KINDS = [
+  { kind: 'parent', label: 'Parent field' },
+  { kind: 'parentLink', label: 'Custom parent field' },
+  { kind: 'issueLink', label: 'Issue link' },
+];
+
+const toStrategyDraft = (strategy) => ({
+  kind: strategy?.kind || 'parent',
+  field: strategy?.field || '',
+  linkType: strategy?.linkType || '',
+  direction: strategy?.direction || 'outward',
+  maxDepth: strategy?.maxDepth ? String(strategy.maxDepth) : '',
+});
+
+const OPERATORS = ['+', '-', '*', '/', '(', ')', '>', '<', '>=', '<=', '==', '!=', 'AND', 'OR', 'NOT'];
 
 export default function App() {
   const [loading, setLoading] = useState(true);
+  const [definitions, setDefinitions] = useState([]);
+  const [selectedId, setSelectedId] = useState(null);
+  const [metricName, setMetricName] = useState('');
+  const [isPrimary, setIsPrimary] = useState(false);
   const [formulaType, setFormulaType] = useState('storyPointSum');
   const [customFormula, setCustomFormula] = useState('');
   const [yellowThreshold, setYellowThreshold] = useState(50);
   const [redThreshold, setRedThreshold] = useState(75);
   const [maxDepth, setMaxDepth] = useState(3);
   const [storyPointsField, setStoryPointsField] = useState('story_points');
+  const [hoursPerDay, setHoursPerDay] = useState(8);
+  const [filterDraft, setFilterDraft] = useState(toFilterDraft(null));
   const [saving, setSaving] = useState(false);
   const [alert, setAlert] = useState(null);
+  const [overrides, setOverrides] = useState([]);
+  const [overrideDraft, setOverrideDraft] = useState(EMPTY_OVERRIDE);
+  const [formulaErrors, setFormulaErrors] = useState([]);
+  const [previewKeyInput, setPreviewKeyInput] = useState('');
+  const [previewKey, setPreviewKey] = useState('');
+  const [preview, setPreview] = useState(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [reconciliation, setReconciliation] = useState(null);
+  const [backfillJql, setBackfillJql] = useState('');
+  const [backfill, setBackfill] = useState(null);
+  const [semanticsDraft, setSemanticsDraft] = useState(toSemanticsDraft(null));
+  const [strategyDrafts, setStrategyDrafts] = useState([toStrategyDraft(null)]);
+  const [linkTypes, setLinkTypes] = useState([]);
+
+  const applyDefinition = (config, primary) => {
+    setSelectedId(config?.id ?? null);
+    setMetricName(config?.name ?? '');
+    setIsPrimary(primary);
+    setFormulaType(config?.type || 'storyPointSum');
+    setCustomFormula(config?.formula || '');
+    if (config?.thresholds) {
+      setYellowThreshold(config.thresholds[0] || 75);
+      setRedThreshold(config.thresholds[1] || 50);
+    }
+    setMaxDepth(config?.maxDepth || 3);
+    setStoryPointsField(config?.storyPointsField || 'story_points');
+    setHoursPerDay(config?.hoursPerDay || 8);
+    setFilterDraft(toFilterDraft(config?.filter));
+  };
 
   useEffect(() => {
     const loadConfig = async () => {
       try {
-        const config = await invoke('getFieldConfig');
-        if (config) {
-          setFormulaType(config.type || 'storyPointSum');
-          setCustomFormula(config.formula || '');
-          if (config.thresholds) {
-            setYellowThreshold(config.thresholds[0] || 75);
-            setRedThreshold(config.thresholds[1] || 50);
-          }
-          setMaxDepth(config.maxDepth || 3);
-          setStoryPointsField(config.storyPointsField || 'story_points');
+        const [defs, scoped, status, job, semantics, traversal] = await Promise.all([
+          invoke('getMetricDefinitions'),
+          invoke('getConfigOverrides'),
+          invoke('getReconciliationStatus'),
+          invoke('getBackfillStatus'),
+          invoke('getStatusSemantics'),
+          invoke('getTraversalStrategies'),
+        ]);
+        if (defs && defs.length) {
+          setDefinitions(defs);
+          applyDefinition(defs[0], true);
         }
+        setOverrides(scoped || []);
+        setReconciliation(status);
+        setBackfill(job);
+        setSemanticsDraft(toSemanticsDraft(semantics));
+        setStrategyDrafts(traversal.strategies.map(toStrategyDraft));
+        setLinkTypes(traversal.linkTypes || []);
       } catch (error) {
         console.error('Failed to load config:', error);
         setAlert({
@@ -301,19 +635,128 @@ export default function App() {
     loadConfig();
   }, []);
 
+  // Poll backfill progress while a job is running
+  useEffect(() => {
+    if (backfill?.status !== 'running') return undefined;
+    const timer = setTimeout(async () => {
+      try {
+        setBackfill(await invoke('getBackfillStatus'));
+      } catch (error) {
+        console.error('Failed to load backfill status:', error);
+      }
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [backfill]);
+
+  // Validate the custom formula as the admin types (debounced)
+  useEffect(() => {
+    if (formulaType !== 'custom' || !customFormula.trim()) {
+      setFormulaErrors([]);
+      return undefined;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await invoke('validateFormula', { formula: customFormula });
+        if (!cancelled) setFormulaErrors(result.errors || []);
+      } catch (error) {
+        console.error('Failed to validate formula:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formulaType, customFormula]);
+
+  // Re-run the preview whenever the form changes once a sample issue is set
+  useEffect(() => {
+    if (!previewKey || formulaErrors.length > 0) return undefined;
+    if (formulaType === 'custom' && !customFormula.trim()) return undefined;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setPreviewing(true);
+      try {
+        const result = await invoke('previewFormula', {
+          issueKey: previewKey,
+          formula: formulaType === 'custom' ? customFormula : undefined,
+          config: {
+            type: formulaType,
+            thresholds: [yellowThreshold, redThreshold],
+            maxDepth,
+            storyPointsField,
+            hoursPerDay,
+            filter: filterDraft,
+          },
+        });
+        if (!cancelled) setPreview(result);
+      } catch (error) {
+        console.error('Failed to preview formula:', error);
+        if (!cancelled) setPreview({ ok: false, error: error.message || 'Unknown error' });
+      } finally {
+        if (!cancelled) setPreviewing(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    previewKey,
+    formulaErrors,
+    formulaType,
+    customFormula,
+    yellowThreshold,
+    redThreshold,
+    maxDepth,
+    storyPointsField,
+    hoursPerDay,
+    filterDraft,
+  ]);
+
+  const handlePreview = () => {
+    setPreview(null);
+    setPreviewKey(previewKeyInput.trim().toUpperCase());
+  };
+
+  const handleSelect = (def) => {
+    applyDefinition(def, definitions[0]?.id === def.id);
+    setAlert(null);
+  };
+
+  const handleAdd = () => {
+    applyDefinition(null, false);
+    setAlert(null);
+  };
+
   const handleSave = async (e) => {
     e.preventDefault();
     setSaving(true);
     setAlert(null);
 
     try {
-      await invoke('saveFieldConfig', {
+      const result = await invoke('saveMetricDefinition', {
+        id: selectedId ?? undefined,
+        name: metricName,
+        primary: isPrimary,
         type: formulaType,
         formula: formulaType === 'custom' ? customFormula : undefined,
         thresholds: [yellowThreshold, redThreshold],
         maxDepth,
         storyPointsField,
+        hoursPerDay,
+        filter: filterDraft,
       });
+      if (!result.ok) {
+        setFormulaErrors(result.errors || []);
+        throw new Error(result.error);
+      }
+      setDefinitions(result.definitions);
+      applyDefinition(result.definition, result.definitions[0]?.id === result.definition.id);
       setAlert({
         type: 'success',
         message: 'Configuration saved successfully!',
@@ -330,6 +773,146 @@ export default function App() {
     }
   };
 
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    setSaving(true);
+    setAlert(null);
+
+    try {
+      const result = await invoke('deleteMetricDefinition', { id: selectedId });
+      if (!result.ok) throw new Error(result.error);
+      setDefinitions(result.definitions);
+      applyDefinition(result.definitions[0], true);
+    } catch (error) {
+      console.error('Failed to delete metric:', error);
+      setAlert({
+        type: 'error',
+        message: `Failed to delete metric: ${error.message || 'Unknown error'}`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateOverrideDraft = (field) => (e) => {
+    setOverrideDraft({ ...overrideDraft, [field]: e.target.value });
+  };
+
+  const handleAddOverride = async () => {
+    setSaving(true);
+    setAlert(null);
+
+    try {
+      const { yellow, red, ...rest } = overrideDraft;
+      const result = await invoke('saveConfigOverride', {
+        ...rest,
+        thresholds: yellow !== '' && red !== '' ? [Number(yellow), Number(red)] : undefined,
+      });
+      if (!result.ok) throw new Error(result.error);
+      setOverrides(result.overrides);
+      setOverrideDraft(EMPTY_OVERRIDE);
+    } catch (error) {
+      console.error('Failed to save override:', error);
+      setAlert({
+        type: 'error',
+        message: `Failed to save override: ${error.message || 'Unknown error'}`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteOverride = async (id) => {
+    setSaving(true);
+    setAlert(null);
+
+    try {
+      const result = await invoke('deleteConfigOverride', { id });
+      if (!result.ok) throw new Error(result.error);
+      setOverrides(result.overrides);
+    } catch (error) {
+      console.error('Failed to delete override:', error);
+      setAlert({
+        type: 'error',
+        message: `Failed to delete override: ${error.message || 'Unknown error'}`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSemantics = async () => {
+    setSaving(true);
+    setAlert(null);
+
+    try {
+      const result = await invoke('saveStatusSemantics', semanticsDraft);
+      if (!result.ok) throw new Error(result.error);
+      setSemanticsDraft(toSemanticsDraft(result.semantics));
+      setAlert({ type: 'success', message: 'Status mapping saved.' });
+    } catch (error) {
+      console.error('Failed to save status mapping:', error);
+      setAlert({
+        type: 'error',
+        message: `Failed to save status mapping: ${error.message || 'Unknown error'}`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveStrategies = async () => {
+    setSaving(true);
+    setAlert(null);
+
+    try {
+      const result = await invoke('saveTraversalStrategies', { strategies: strategyDrafts });
+      if (!result.ok) throw new Error(result.error);
+      setStrategyDrafts(result.strategies.map(toStrategyDraft));
+      setAlert({ type: 'success', message: 'Hierarchy saved.' });
+    } catch (error) {
+      console.error('Failed to save hierarchy:', error);
+      setAlert({
+        type: 'error',
+        message: `Failed to save hierarchy: ${error.message || 'Unknown error'}`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStartBackfill = async () => {
+    setAlert(null);
+    try {
+      const result = await invoke('startBackfill', { jql: backfillJql });
+      if (!result.ok) throw new Error(result.error);
+      setBackfill(result.job);
+    } catch (error) {
+      console.error('Failed to start backfill:', error);
+      setAlert({
+        type: 'error',
+        message: `Failed to start backfill: ${error.message || 'Unknown error'}`,
+      });
+    }
+  };
+
+  const handleCancelBackfill = async () => {
+    try {
+      const result = await invoke('cancelBackfill');
+      setBackfill(result.job);
+    } catch (error) {
+      console.error('Failed to cancel backfill:', error);
+    }
+  };
+
+  const describeOverride = (o) => {
+    const parts = [];
+    if (o.settings.storyPointsField) parts.push(`SP field ${o.settings.storyPointsField}`);
+    if (o.settings.thresholds) parts.push(`thresholds ${o.settings.thresholds.join(' / ')}`);
+    if (o.settings.maxDepth) parts.push(`depth ${o.settings.maxDepth}`);
+    return parts.join(', ') || 'no changes';
+  };
+
   const handleReset = () => {
     setFormulaType('storyPointSum');
     setCustomFormula('');
@@ -337,16 +920,24 @@ export default function App() {
     setRedThreshold(50);
     setMaxDepth(3);
     setStoryPointsField('story_points');
+    setHoursPerDay(8);
+    setFilterDraft(toFilterDraft(null));
     setAlert(null);
   };
 
+  const updateFilterCondition = (key, change) =>
+    setFilterDraft({ ...filterDraft, [key]: { ...filterDraft[key], ...change } });
+
+  const updateStrategy = (index, change) =>
+    setStrategyDrafts(strategyDrafts.map((d, i) => (i === index ? { ...d, ...change } : d)));
+
   return (
     <>
       <style>{styles}</style>
       <div className="admin-container">
         <div className="page-header">
           <h1>Field Configuration</h1>
-          <p>Configure computed child metrics formula, thresholds, and hierarchy depth.</p>
+          <p>Configure the named metrics computed from child issues: formula, thresholds, and hierarchy depth.</p>
         </div>
 
         {alert && (
@@ -355,7 +946,64 @@ export default function App() {
           </div>
         )}
 
+        <div className={`config-form metric-list ${saving || loading ? 'loading' : ''}`}>
+          <label className="form-label">Metrics</label>
+          <p className="form-label-hint">
+            Each metric is computed for every parent issue. The primary metric is the field value
+            shown in lists; the issue view lets users switch between all of them.
+          </p>
+          <ul>
+            {definitions.map((def, index) => (
+              <li key={def.id}>
+                <button
+                  type="button"
+                  className={`metric-item ${def.id === selectedId ? 'selected' : ''}`}
+                  onClick={() => handleSelect(def)}
+                  disabled={loading || saving}
+                >
+                  {def.name}
+                  <span className="metric-item-type">
+                    {FORMULA_TYPES[def.type] || def.type}
+                    {index === 0 ? ' · primary' : ''}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={handleAdd}
+            disabled={loading || saving}
+          >
+            Add Metric
+          </button>
+        </div>
+
         <form className={`config-form ${saving || loading ? 'loading' : ''}`} onSubmit={handleSave}>
+          <div className="form-group">
+            <label className="form-label" htmlFor="metric-name">
+              Metric Name
+            </label>
+            <input
+              id="metric-name"
+              type="text"
+              value={metricName}
+              onChange={(e) => setMetricName(e.target.value)}
+              placeholder="e.g. Remaining SP"
+              disabled={loading || saving}
+            />
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={isPrimary}
+                onChange={(e) => setIsPrimary(e.target.checked)}
+                disabled={loading || saving}
+              />
+              Primary metric (shown as the field value)
+            </label>
+          </div>
+
           <div className="form-group">
             <label className="form-label" htmlFor="formula-type">
               Formula Type
@@ -384,16 +1032,33 @@ export default function App() {
                 value={customFormula}
                 onChange={(e) => setCustomFormula(e.target.value)}
                 placeholder="e.g. ROUND(totalStoryPoints / childCount)"
+                className={formulaErrors.length ? 'invalid' : ''}
                 disabled={loading || saving}
               />
+              {formulaErrors.length > 0 && (
+                <ul className="formula-errors">
+                  {formulaErrors.map((err) => (
+                    <li key={`${err.code}-${err.column}`}>{err.message}</li>
+                  ))}
+                </ul>
+              )}
               <div className="formula-help">
                 <h4>Available Variables</h4>
                 <p>{VARIABLES.join(', ')}</p>
+                <p>Time variables are in hours.</p>
                 <h4>Available Functions</h4>
                 <p>{FUNCTIONS.join(', ')}</p>
+                <h4>Aggregates over Descendants</h4>
+                <p>{AGGREGATES.join(', ')}</p>
+                <p>Inside an aggregate, these refer to each descendant: {ROW_VARIABLES.join(', ')}</p>
                 <h4>Available Operators</h4>
                 <p>{OPERATORS.join(', ')}</p>
-                <p>Example: <code>IF(percentComplete >= 80, 1, 0)</code></p>
+                <p>Example: <code>IF(blockedCount > 0 AND percentComplete &lt; 50, 3, 1)</code></p>
+                <p>Example: <code>SUM(storyPoints * (issuetype == "Bug") * (done == 0))</code></p>
+                <p>
+                  <code>DEPTH(n, expr)</code> evaluates <code>expr</code> over the issues n levels down only
+                  (1 = children, 2 = grandchildren). Example: <code>DEPTH(2, percentComplete)</code>
+                </p>
               </div>
             </div>
           )}
@@ -403,6 +1068,13 @@ export default function App() {
             <p className="form-label-hint">
               Values above yellow threshold show yellow, above red threshold show red.
             </p>
+            {formulaType === 'forecastCompletion' && (
+              <p className="form-label-hint">
+                The date is projected from the burn rate over the last four weeks. Parents with a due
+                date show green when the whole range lands before it, yellow when only the projection
+                does, and red otherwise; for other parents the thresholds are in days left.
+              </p>
+            )}
             <div className="threshold-inputs">
               <div>
                 <label className="form-label" htmlFor="yellow-threshold">
@@ -435,6 +1107,26 @@ export default function App() {
             </div>
           </div>
 
+          {TIME_TYPES.includes(formulaType) && (
+            <div className="form-group">
+              <label className="form-label" htmlFor="hours-per-day">
+                Hours per Day
+              </label>
+              <p className="form-label-hint">
+                Working hours in a day, used for duration labels such as "3d 4h". Thresholds are in hours.
+              </p>
+              <input
+                id="hours-per-day"
+                type="number"
+                min="1"
+                max="24"
+                value={hoursPerDay}
+                onChange={(e) => setHoursPerDay(Number(e.target.value))}
+                disabled={loading || saving}
+              />
+            </div>
+          )}
+
           <div className="form-group">
             <label className="form-label" htmlFor="max-depth">
               Max Hierarchy Depth
@@ -453,6 +1145,48 @@ export default function App() {
             />
           </div>
 
+          <div className="form-group">
+            <label className="form-label">Included Issues</label>
+            <p className="form-label-hint">
+              Leave out descendants, or keep only some. An issue that is left out is skipped with
+              everything below it, so "Only" lists need every issue type on the way down (e.g.
+              Epic, Story). Leave a row blank to include everything.
+            </p>
+            {FILTER_FIELDS.map(({ key, label, placeholder }) => (
+              <div className="filter-row" key={key}>
+                <label htmlFor={`filter-${key}`}>{label}</label>
+                <select
+                  value={filterDraft[key].exclude ? 'exclude' : 'only'}
+                  onChange={(e) => updateFilterCondition(key, { exclude: e.target.value === 'exclude' })}
+                  disabled={loading || saving}
+                >
+                  <option value="exclude">Leave out</option>
+                  <option value="only">Only</option>
+                </select>
+                <input
+                  id={`filter-${key}`}
+                  type="text"
+                  value={filterDraft[key].values}
+                  placeholder={placeholder}
+                  onChange={(e) => updateFilterCondition(key, { values: e.target.value })}
+                  disabled={loading || saving}
+                />
+              </div>
+            ))}
+            <div className="filter-row">
+              <label htmlFor="filter-jql">Extra JQL</label>
+              <span />
+              <input
+                id="filter-jql"
+                type="text"
+                value={filterDraft.jql}
+                placeholder="e.g. priority != Lowest"
+                onChange={(e) => setFilterDraft({ ...filterDraft, jql: e.target.value })}
+                disabled={loading || saving}
+              />
+            </div>
+          </div>
+
           <div className="form-group">
             <label className="form-label" htmlFor="story-points-field">
               Story Points Field
@@ -470,13 +1204,75 @@ export default function App() {
             />
           </div>
 
+          <div className="form-group">
+            <label className="form-label" htmlFor="preview-issue">
+              Preview
+            </label>
+            <p className="form-label-hint">
+              Evaluate the settings above against a real parent issue without saving. The preview
+              updates as you edit.
+            </p>
+            <div className="preview-inputs">
+              <input
+                id="preview-issue"
+                type="text"
+                value={previewKeyInput}
+                onChange={(e) => setPreviewKeyInput(e.target.value)}
+                placeholder="e.g. PROJ-123"
+                disabled={loading || saving}
+              />
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={handlePreview}
+                disabled={loading || saving || !previewKeyInput.trim()}
+              >
+                {previewing ? 'Evaluating...' : 'Preview'}
+              </button>
+            </div>
+            {preview && (
+              <div className="preview-panel">
+                {preview.ok ? (
+                  <>
+                    <div className="preview-value">
+                      <span className={`preview-swatch ${preview.result.color}`} />
+                      {preview.result.label}
+                    </div>
+                    <p className="form-label-hint">
+                      {preview.issueKey} · {preview.descendantCount} descendants
+                    </p>
+                    {Object.keys(preview.variables).length > 0 && (
+                      <table className="preview-variables">
+                        <tbody>
+                          {Object.entries(preview.variables).map(([name, value]) => (
+                            <tr key={name}>
+                              <td><code>{name}</code></td>
+                              <td>{value}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </>
+                ) : (
+                  <p className="formula-errors">{preview.error}</p>
+                )}
+              </div>
+            )}
+          </div>
+
           <div className="button-group">
             <button
               type="submit"
               className="btn-primary"
-              disabled={loading || saving || (formulaType === 'custom' && !customFormula.trim())}
+              disabled={
+                loading ||
+                saving ||
+                !metricName.trim() ||
+                (formulaType === 'custom' && (!customFormula.trim() || formulaErrors.length > 0))
+              }
             >
-              {saving ? 'Saving...' : 'Save Configuration'}
+              {saving ? 'Saving...' : selectedId ? 'Save Metric' : 'Create Metric'}
             </button>
             <button
               type="button"
@@ -486,9 +1282,380 @@ export default function App() {
             >
               Reset to Defaults
             </button>
+            {selectedId && definitions.length > 1 && (
+              <button
+                type="button"
+                className="btn-danger"
+                onClick={handleDelete}
+                disabled={loading || saving}
+              >
+                Delete Metric
+              </button>
+            )}
           </div>
         </form>
+
+        <div className={`config-form overrides ${saving || loading ? 'loading' : ''}`}>
+          <label className="form-label">Scoped Overrides</label>
+          <p className="form-label-hint">
+            Overrides apply on top of the metrics above: site default → project → issue type →
+            project + issue type. Leave a setting blank to inherit it.
+          </p>
+
+          {overrides.length > 0 && (
+            <table className="override-table">
+              <thead>
+                <tr>
+                  <th>Project</th>
+                  <th>Issue Type</th>
+                  <th>Metric</th>
+                  <th>Settings</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {overrides.map((o) => (
+                  <tr key={o.id}>
+                    <td>{o.projectKey || 'Any'}</td>
+                    <td>{o.issueType || 'Any'}</td>
+                    <td>{definitions.find((d) => d.id === o.metricId)?.name || 'All metrics'}</td>
+                    <td>{describeOverride(o)}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="btn-danger"
+                        onClick={() => handleDeleteOverride(o.id)}
+                        disabled={loading || saving}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="override-inputs">
+            <input
+              type="text"
+              placeholder="Project key (e.g. ENG)"
+              value={overrideDraft.projectKey}
+              onChange={updateOverrideDraft('projectKey')}
+              disabled={loading || saving}
+            />
+            <input
+              type="text"
+              placeholder="Issue type (e.g. Epic)"
+              value={overrideDraft.issueType}
+              onChange={updateOverrideDraft('issueType')}
+              disabled={loading || saving}
+            />
+            <select
+              value={overrideDraft.metricId}
+              onChange={updateOverrideDraft('metricId')}
+              disabled={loading || saving}
+            >
+              <option value="">All metrics</option>
+              {definitions.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Story points field"
+              value={overrideDraft.storyPointsField}
+              onChange={updateOverrideDraft('storyPointsField')}
+              disabled={loading || saving}
+            />
+            <input
+              type="number"
+              placeholder="Yellow threshold"
+              value={overrideDraft.yellow}
+              onChange={updateOverrideDraft('yellow')}
+              disabled={loading || saving}
+            />
+            <input
+              type="number"
+              placeholder="Red threshold"
+              value={overrideDraft.red}
+              onChange={updateOverrideDraft('red')}
+              disabled={loading || saving}
+            />
+            <input
+              type="number"
+              min="1"
+              max="5"
+              placeholder="Max depth"
+              value={overrideDraft.maxDepth}
+              onChange={updateOverrideDraft('maxDepth')}
+              disabled={loading || saving}
+            />
+          </div>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={handleAddOverride}
+            disabled={
+              loading || saving || (!overrideDraft.projectKey.trim() && !overrideDraft.issueType.trim())
+            }
+          >
+            Add Override
+          </button>
+        </div>
+
+        <div className={`config-form status-mapping ${saving || loading ? 'loading' : ''}`}>
+          <label className="form-label">Status Mapping</label>
+          <p className="form-label-hint">
+            Which issues every metric counts as done or blocked, and which it leaves out. Enter
+            status names, categories (new, indeterminate, done) and labels comma-separated. Open
+            issues that are flagged count as blocked when a flag field is set. Existing values
+            update as issues are recomputed; run a backfill to update them all now.
+          </p>
+          {SEMANTICS_FIELDS.map(({ key, label, placeholder }) => (
+            <div className="form-group" key={key}>
+              <label className="form-label" htmlFor={`semantics-${key}`}>
+                {label}
+              </label>
+              <input
+                id={`semantics-${key}`}
+                type="text"
+                value={semanticsDraft[key]}
+                placeholder={placeholder}
+                onChange={(e) => setSemanticsDraft({ ...semanticsDraft, [key]: e.target.value })}
+                disabled={loading || saving}
+              />
+            </div>
+          ))}
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={handleSaveSemantics}
+            disabled={loading || saving}
+          >
+            Save Status Mapping
+          </button>
+        </div>
+
+        <div className={`config-form hierarchy ${saving || loading ? 'loading' : ''}`}>
+          <label className="form-label">Hierarchy</label>
+          <p className="form-label-hint">
+            Which relationships count as parent → child for every metric. Children found through
+            several are counted once. Set a depth to follow a relationship only that many levels
+            below the issue (e.g. links at level 1 only). Anything other than the parent field alone
+            recomputes whole rollups on each change, which takes more API calls.
+          </p>
+          {strategyDrafts.map((draft, index) => (
+            <div className="strategy-row" key={index}>
+              <select
+                value={draft.kind}
+                onChange={(e) => updateStrategy(index, { kind: e.target.value })}
+                disabled={loading || saving}
+              >
+                {STRATEGY_KINDS.map(({ kind, label }) => (
+                  <option key={kind} value={kind}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {draft.kind === 'parent' && <span />}
+              {draft.kind === 'parentLink' && (
+                <input
+                  type="text"
+                  value={draft.field}
+                  placeholder="e.g. customfield_10018"
+                  onChange={(e) => updateStrategy(index, { field: e.target.value })}
+                  disabled={loading || saving}
+                />
+              )}
+              {draft.kind === 'issueLink' && (
+                <select
+                  value={draft.linkType}
+                  onChange={(e) => updateStrategy(index, { linkType: e.target.value })}
+                  disabled={loading || saving}
+                >
+                  <option value="">Link type…</option>
+                  {linkTypes.map((t) => (
+                    <option key={t.name} value={t.name}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {draft.kind === 'issueLink' ? (
+                <select
+                  value={draft.direction}
+                  onChange={(e) => updateStrategy(index, { direction: e.target.value })}
+                  disabled={loading || saving}
+                >
+                  {['outward', 'inward'].map((direction) => (
+                    <option key={direction} value={direction}>
+                      {linkTypes.find((t) => t.name === draft.linkType)?.[direction] || direction}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span />
+              )}
+              <input
+                type="number"
+                min="1"
+                max="10"
+                value={draft.maxDepth}
+                placeholder="Any depth"
+                onChange={(e) => updateStrategy(index, { maxDepth: e.target.value })}
+                disabled={loading || saving}
+              />
+              <button
+                type="button"
+                className="btn-danger"
+                onClick={() => setStrategyDrafts(strategyDrafts.filter((_, i) => i !== index))}
+                disabled={loading || saving || strategyDrafts.length === 1}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => setStrategyDrafts([...strategyDrafts, toStrategyDraft({ kind: 'issueLink' })])}
+            disabled={loading || saving}
+          >
+            Add Relationship
+          </button>{' '}
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={handleSaveStrategies}
+            disabled={loading || saving}
+          >
+            Save Hierarchy
+          </button>
+        </div>
+
+        <div className={`config-form reconciliation ${loading ? 'loading' : ''}`}>
+          <label className="form-label">Reconciliation</label>
+          <p className="form-label-hint">
+            Once a day every issue with stored metrics is recomputed in the background, catching
+            anything a missed or failed trigger left stale.
+          </p>
+          {reconciliation?.current && (
+            <p className="form-label-hint">
+              Pass in progress since {new Date(reconciliation.current.startedAt).toLocaleString()}:{' '}
+              {reconciliation.current.changed + reconciliation.current.unchanged + reconciliation.current.failed}{' '}
+              issues checked so far.
+            </p>
+          )}
+          {reconciliation?.last ? (
+            <ReconciliationReport report={reconciliation.last} />
+          ) : (
+            <p className="form-label-hint">No pass has completed yet.</p>
+          )}
+        </div>
+
+        <div className={`config-form backfill ${loading ? 'loading' : ''}`}>
+          <label className="form-label" htmlFor="backfill-jql">
+            Backfill
+          </label>
+          <p className="form-label-hint">
+            Recompute every parent issue matching a JQL query, e.g. after installing the app or
+            changing a formula. The job runs in the background; you can leave this page.
+          </p>
+          <div className="preview-inputs">
+            <input
+              id="backfill-jql"
+              type="text"
+              value={backfillJql}
+              onChange={(e) => setBackfillJql(e.target.value)}
+              placeholder="e.g. project = PROJ AND issuetype = Epic"
+              disabled={loading || backfill?.status === 'running'}
+            />
+            {backfill?.status === 'running' ? (
+              <button type="button" className="btn-secondary" onClick={handleCancelBackfill}>
+                Cancel
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={handleStartBackfill}
+                disabled={loading || !backfillJql.trim()}
+              >
+                Start Backfill
+              </button>
+            )}
+          </div>
+          {backfill && <BackfillSummary job={backfill} />}
+        </div>
+      </div>
+    </>
+  );
+}
+
+function ReconciliationReport({ report }) {
+  return (
+    <>
+      <p className="form-label-hint">
+        Last pass completed {new Date(report.completedAt).toLocaleString()}
+      </p>
+      <div className="report-counts">
+        <div><strong>{report.changed}</strong>changed</div>
+        <div><strong>{report.unchanged}</strong>unchanged</div>
+        <div><strong>{report.failed}</strong>failed</div>
+      </div>
+      {report.error && <p className="report-failures">{report.error}</p>}
+      {report.failures.length > 0 && (
+        <ul className="report-failures">
+          {report.failures.map((f) => (
+            <li key={f.issueKey}>
+              {f.issueKey}: {f.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+function BackfillSummary({ job }) {
+  // The total is Jira's estimate, so the bar may stop short of or reach 100% early
+  const percent = job.total ? Math.min(Math.round((job.processed / job.total) * 100), 100) : 0;
+  const finished = job.completedAt ? new Date(job.completedAt).toLocaleString() : null;
+  return (
+    <>
+      {job.status === 'running' ? (
+        <>
+          <div className="backfill-progress">
+            <div style={{ width: `${percent}%` }} />
+          </div>
+          <p className="form-label-hint">
+            Running <code>{job.jql}</code>: {job.processed} of {job.total !== undefined ? `about ${job.total}` : '…'} issues processed.
+          </p>
+        </>
+      ) : (
+        <p className="form-label-hint">
+          Last backfill ({job.status}) of <code>{job.jql}</code>
+          {finished && ` finished ${finished}`}.
+        </p>
+      )}
+      <div className="report-counts">
+        <div><strong>{job.updated}</strong>updated</div>
+        <div><strong>{job.skipped}</strong>no children</div>
+        <div><strong>{job.failed}</strong>failed</div>
       </div>
+      {job.error && <p className="report-failures">{job.error}</p>}
+      {job.failures.length > 0 && (
+        <ul className="report-failures">
+          {job.failures.map((f) => (
+            <li key={f.issueKey}>
+              {f.issueKey}: {f.error}
+            </li>
+          ))}
+        </ul>
+      )}
     </>
   );
 }
@@ -73,8 +73,14 @@ const App = () => {
       }
     }
 
-    const { value, label, color = 'grey' } = parsedValue;
-    const colorStyle = colorMap[color] || colorMap.grey;
+    const { value, label, color = 'grey', completeness } = parsedValue;
+    const quality = qualityOf(completeness);
+    const colorStyle = quality ? colorMap.grey : colorMap[color] || colorMap.grey;
+    const title = quality === 'stale'
+      ? `Stale: the last recompute failed${completeness.lastError ? ` (${completeness.lastError})` : ''}`
+      : quality === 'partial'
+        ? `Partial: computed from ${completeness.scanned}${completeness.expected ? ` of about ${completeness.expected}` : ''} issues`
+        : undefined;
 
     return (
       <span
@@ -90,8 +96,10 @@ const App = () => {
           borderRadius: '3px',
           whiteSpace: 'nowrap'
         }}
+        title={title}
       >
         {label || value || '—'}
+        {quality && <span style={{ fontWeight: '400', fontStyle: 'italic' }}> · {quality}</span>}
       </span>
     );
   };
@@ -103,4 +111,11 @@ const App = () => {
   );
 };
 
+/** Same classification as the issue view's `qualityOf`; both apps grey out what it flags. */
+const qualityOf = (completeness) => {
+  if (completeness?.stale) return 'stale';
+  if (completeness?.truncated?.some((reason) => reason !== 'depth')) return 'partial';
+  return null;
+};
+
 export default App;
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { view, invoke } from '@forge/bridge';
+import { view, invoke, router } from '@forge/bridge';
 import './App.css';
 
 const App = () => {
@@ -8,6 +8,13 @@ const App = () => {
   const [error, setError] = useState(null);
   const [refreshing, setRefreshing] = useState(false);
   const [issueKey, setIssueKey] = useState(null);
+  const [allMetrics, setAllMetrics] = useState(null);
+  const [definitions, setDefinitions] = useState([]);
+  const [selectedId, setSelectedId] = useState(null);
+  const [history, setHistory] = useState([]);
+  const [expanded, setExpanded] = useState(false);
+  const [breakdown, setBreakdown] = useState(null);
+  const [breakdownLoading, setBreakdownLoading] = useState(false);
 
   useEffect(() => {
     const fetchMetrics = async () => {
@@ -22,8 +29,21 @@ const App = () => {
         if (fieldValue) {
           const parsed = JSON.parse(fieldValue);
           setMetrics(parsed);
+          setSelectedId(parsed.metricId ?? null);
         }
         setLoading(false);
+
+        // Other named metrics are only needed for the selector
+        try {
+          const [stored, defs] = await Promise.all([
+            invoke('getMetrics'),
+            invoke('getMetricDefinitions'),
+          ]);
+          setAllMetrics(stored);
+          setDefinitions(defs || []);
+        } catch (err) {
+          console.warn('Could not load metric selector:', err);
+        }
       } catch (err) {
         setError(err.message);
         setLoading(false);
@@ -33,6 +53,26 @@ const App = () => {
     fetchMetrics();
   }, []);
 
+  // Trend of the selected metric; reloaded after a refresh
+  useEffect(() => {
+    const metricId = selectedId ?? metrics?.metricId;
+    if (!metricId) return;
+    invoke('getMetricHistory', { metricId })
+      .then((points) => setHistory(points || []))
+      .catch((err) => console.warn('Could not load metric history:', err));
+  }, [selectedId, metrics]);
+
+  // Drill-down for the selected metric, loaded when the panel is opened
+  useEffect(() => {
+    const metricId = selectedId ?? metrics?.metricId;
+    if (!expanded || !metricId) return;
+    setBreakdownLoading(true);
+    invoke('getBreakdown', { metricId })
+      .then((result) => setBreakdown(result))
+      .catch((err) => console.warn('Could not load breakdown:', err))
+      .finally(() => setBreakdownLoading(false));
+  }, [expanded, selectedId, metrics]);
+
   const handleRefresh = async () => {
     if (!issueKey || refreshing) return;
     
@@ -48,7 +88,9 @@ const App = () => {
       const freshMetrics = await invoke('getMetrics');
       
       if (freshMetrics) {
-        setMetrics(freshMetrics);
+        setAllMetrics(freshMetrics);
+        const fresh = freshMetrics.results[selectedId] ?? Object.values(freshMetrics.results)[0];
+        if (fresh) setMetrics(fresh);
       }
     } catch (err) {
       setError(`Refresh failed: ${err.message}`);
@@ -115,14 +157,38 @@ const App = () => {
     );
   }
 
-  const { value, label, color, updatedAt, formulaType } = metrics;
-  const colorStyles = getColorStyles(color || 'grey');
-  const isPercentComplete = formulaType === 'percentComplete';
+  const handleSelect = (e) => {
+    const id = e.target.value;
+    setSelectedId(id);
+    const selected = allMetrics?.results?.[id];
+    if (selected) setMetrics(selected);
+  };
+
+  const selectable = definitions.filter((d) => allMetrics?.results?.[d.id]);
+
+  const { value, label, color, updatedAt, formulaType, segments, completeness } = metrics;
+  const quality = qualityOf(completeness);
+  const colorStyles = getColorStyles(quality ? 'grey' : color || 'grey');
+  const isPercentComplete = !segments && formulaType === 'percentComplete';
   const percentage = isPercentComplete ? Math.min(Math.max(value, 0), 100) : 0;
 
   return (
     <div className="metrics-container">
       <div className="metrics-header">
+        {selectable.length > 1 && (
+          <select
+            className="metric-select"
+            value={selectedId ?? ''}
+            onChange={handleSelect}
+            title="Select metric"
+          >
+            {selectable.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name}
+              </option>
+            ))}
+          </select>
+        )}
         <div
           className="metrics-badge"
           style={{
@@ -133,7 +199,10 @@ const App = () => {
           title={updatedAt ? `Updated: ${updatedAt}` : ''}
         >
           <span className="metrics-value">{label}</span>
+          {quality && <span className="metrics-quality">{quality}</span>}
         </div>
+
+        <Sparkline points={history} color={colorStyles.border} />
         
         <button
           className="refresh-btn"
@@ -145,6 +214,24 @@ const App = () => {
         </button>
       </div>
 
+      {completeness && <CompletenessNotice completeness={completeness} quality={quality} />}
+
+      {segments && (
+        <div
+          className="progress-bar-container segmented"
+          title={`${segments.done}% done · ${segments.inProgress}% in progress · ${segments.todo}% to do`}
+        >
+          <div
+            className="progress-bar-segment"
+            style={{ width: `${segments.done}%`, backgroundColor: getColorStyles('green').border }}
+          />
+          <div
+            className="progress-bar-segment"
+            style={{ width: `${segments.inProgress}%`, backgroundColor: getColorStyles('blue').border }}
+          />
+        </div>
+      )}
+
       {isPercentComplete && (
         <div className="progress-bar-container">
           <div
@@ -156,8 +243,227 @@ const App = () => {
           />
         </div>
       )}
+
+      <button
+        className="breakdown-toggle"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+      >
+        {expanded ? '▾' : '▸'} Details
+      </button>
+
+      {expanded && metrics.levels?.length > 1 && <LevelSubtotals levels={metrics.levels} />}
+
+      {expanded && (
+        breakdownLoading && !breakdown ? (
+          <div className="breakdown">Loading...</div>
+        ) : (
+          breakdown && <Breakdown breakdown={breakdown} />
+        )
+      )}
     </div>
   );
 };
 
+/**
+ * 'stale' when the last recompute failed, 'partial' when descendants were
+ * missed for lack of API budget or a failing search. Issues below the depth
+ * limit are left out by configuration, so they don't make a value partial.
+ * Stale and partial values are greyed out rather than shown in their
+ * threshold colour. The field list badge keeps a copy, as the apps are
+ * built separately.
+ */
+const qualityOf = (completeness) => {
+  if (completeness?.stale) return 'stale';
+  if (completeness?.truncated?.some((reason) => reason !== 'depth')) return 'partial';
+  return null;
+};
+
+const TRUNCATION_REASONS = {
+  budget: 'the API call budget ran out',
+  error: 'a search kept failing',
+};
+
+/** Explains a stale or partial value, or notes issues left below the depth limit. */
+const CompletenessNotice = ({ completeness, quality }) => {
+  const { scanned, expected, truncated, lastError, computedFrom } = completeness;
+  const since = new Date(computedFrom).toLocaleString();
+  const belowDepth = truncated.includes('depth');
+
+  if (quality === 'stale') {
+    return (
+      <div className="completeness-notice" title={lastError}>
+        The last recompute failed{lastError ? `: ${lastError}` : ''}. Showing the value computed {since}.
+      </div>
+    );
+  }
+  if (quality === 'partial') {
+    const reasons = truncated.filter((r) => TRUNCATION_REASONS[r]).map((r) => TRUNCATION_REASONS[r]);
+    return (
+      <div className="completeness-notice" title={lastError}>
+        Computed from {scanned}
+        {expected ? ` of about ${expected}` : ''} issues: {reasons.join(' and ')}.
+      </div>
+    );
+  }
+  if (belowDepth) {
+    return <div className="completeness-hint">Issues below the configured depth are not included.</div>;
+  }
+  return null;
+};
+
+const PROGRESS_LABELS = { todo: 'To Do', inProgress: 'In Progress', done: 'Done' };
+
+const openIssue = (key) => (e) => {
+  e.preventDefault();
+  router.navigate(`/browse/${key}`);
+};
+
+const IssueLink = ({ issueKey }) => (
+  <a href={`/browse/${issueKey}`} onClick={openIssue(issueKey)}>
+    {issueKey}
+  </a>
+);
+
+const LEVEL_NAMES = ['Children', 'Grandchildren'];
+
+/** Done / total issues and story points for each hierarchy level. */
+const LevelSubtotals = ({ levels }) => (
+  <table className="breakdown-table">
+    <thead>
+      <tr>
+        <th>Level</th>
+        <th>Done</th>
+        <th>SP done</th>
+      </tr>
+    </thead>
+    <tbody>
+      {levels.map((level) => (
+        <tr key={level.depth}>
+          <td>{LEVEL_NAMES[level.depth - 1] ?? `Level ${level.depth}`}</td>
+          <td>
+            {level.doneCount} / {level.childCount}
+          </td>
+          <td>
+            {level.donePoints} / {level.totalStoryPoints}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const formatBucket = ({ count, points }) => (points ? `${count} (${points} SP)` : `${count}`);
+
+/**
+ * Drill-down of what a metric was computed from: progress and issue type
+ * splits, each direct child with its subtree subtotal, and the counted
+ * issues of count metrics.
+ */
+const Breakdown = ({ breakdown }) => {
+  const [openChildren, setOpenChildren] = useState(true);
+  const { byProgress, byIssueType, children, issueKeys, issueKeyCount } = breakdown;
+
+  return (
+    <div className="breakdown">
+      <div className="breakdown-split">
+        {Object.entries(PROGRESS_LABELS).map(([state, label]) => (
+          <span key={state}>
+            {label}: <strong>{formatBucket(byProgress[state])}</strong>
+          </span>
+        ))}
+      </div>
+      <div className="breakdown-split">
+        {Object.entries(byIssueType).map(([type, bucket]) => (
+          <span key={type}>
+            {type}: <strong>{formatBucket(bucket)}</strong>
+          </span>
+        ))}
+      </div>
+
+      {issueKeys && (
+        <div className="breakdown-keys">
+          {issueKeys.length === 0 && 'None'}
+          {issueKeys.map((key) => (
+            <IssueLink key={key} issueKey={key} />
+          ))}
+          {issueKeyCount && <span>and {issueKeyCount - issueKeys.length} more</span>}
+        </div>
+      )}
+
+      {children.length > 0 && (
+        <>
+          <button className="breakdown-toggle" onClick={() => setOpenChildren(!openChildren)}>
+            {openChildren ? '▾' : '▸'} Children ({children.length})
+          </button>
+          {openChildren && (
+            <table className="breakdown-table">
+              <thead>
+                <tr>
+                  <th>Issue</th>
+                  <th>Status</th>
+                  <th>Issues</th>
+                  <th>SP</th>
+                  <th>Done</th>
+                </tr>
+              </thead>
+              <tbody>
+                {children.map((child) => (
+                  <tr key={child.key}>
+                    <td title={child.summary}>
+                      <IssueLink issueKey={child.key} /> {child.summary}
+                    </td>
+                    <td>{child.status}</td>
+                    <td>{child.subtotal.count}</td>
+                    <td>{child.subtotal.points}</td>
+                    <td>
+                      {child.subtotal.doneCount}
+                      {child.subtotal.blockedCount > 0 && (
+                        <span className="breakdown-blocked"> · {child.subtotal.blockedCount} blocked</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Inline trend line of a metric's history, scaled to its own range.
+ */
+const Sparkline = ({ points, color }) => {
+  if (points.length < 2) return null;
+
+  const width = 80;
+  const height = 20;
+  const times = points.map((p) => Date.parse(p.at));
+  const values = points.map((p) => p.value);
+  const [minT, maxT] = [times[0], times[times.length - 1]];
+  const [minV, maxV] = [Math.min(...values), Math.max(...values)];
+  const x = (t) => (maxT > minT ? ((t - minT) / (maxT - minT)) * width : width);
+  const y = (v) => (maxV > minV ? height - 2 - ((v - minV) / (maxV - minV)) * (height - 4) : height / 2);
+  const path = points.map((p, i) => `${x(times[i]).toFixed(1)},${y(values[i]).toFixed(1)}`).join(' ');
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const since = new Date(first.at).toLocaleDateString();
+
+  return (
+    <svg
+      className="sparkline"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      <title>{`${first.value} → ${last.value} since ${since}`}</title>
+      <polyline points={path} fill="none" stroke={color} strokeWidth="1.5" />
+    </svg>
+  );
+};
+
 export default App;